@@ -0,0 +1,100 @@
+// Server-side daily limits per device, set with environment variables:
+//   DAILY_IMAGE_LIMIT, DAILY_SCENE_LIMIT, ALLOWED_HOURS (e.g. 8-19) and LIMITS_TIME_ZONE (e.g. America/Chicago)
+// These back up the limits in Parent Mode, which the device enforces itself; the server never sees
+// those, so /api/status reports these and Parent Mode shows them next to its own.
+// Counts live in the edge instance's memory, like the circuit breaker, so they're a best effort.
+
+import { BudgetCheck, evaluateAllowedHours, evaluateBudget, UsedToday } from '../../src/services/budget';
+import type { ApiErrorBody, GenerationLimits, ServerLimits, UsageFeature } from '../../src/types';
+import type { ProviderEnv } from './providers';
+
+const counts = new Map<string, UsedToday>();
+
+function parseHours(value: string | undefined): GenerationLimits['allowedHours'] {
+  const match = value?.match(/^\s*(\d{1,2})\s*-\s*(\d{1,2})\s*$/);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  return start <= 24 && end <= 24 ? { start: start % 24, end: end % 24 } : null;
+}
+
+// Null when no server-side limit is set
+export function getServerLimits(env: ProviderEnv): GenerationLimits | null {
+  const limits: GenerationLimits = {
+    imagesPerDay: Number(env.DAILY_IMAGE_LIMIT) || 0,
+    scenesPerDay: Number(env.DAILY_SCENE_LIMIT) || 0,
+    allowedHours: parseHours(env.ALLOWED_HOURS),
+  };
+  return limits.imagesPerDay || limits.scenesPerDay || limits.allowedHours ? limits : null;
+}
+
+function limitsTimeZone(env: ProviderEnv): string {
+  return env.LIMITS_TIME_ZONE || 'UTC';
+}
+
+// For /api/status, so Parent Mode can show what the server enforces next to the device's own limits
+export function describeServerLimits(env: ProviderEnv): ServerLimits | null {
+  const limits = getServerLimits(env);
+  return limits && { ...limits, timeZone: limitsTimeZone(env) };
+}
+
+// Today's date and the seconds since midnight in the family's time zone
+function localClock(env: ProviderEnv, now: number): { day: string; secondsIntoDay: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: limitsTimeZone(env),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(now));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || '0';
+
+  return {
+    day: `${part('year')}-${part('month')}-${part('day')}`,
+    secondsIntoDay: Number(part('hour')) * 3600 + Number(part('minute')) * 60 + Number(part('second')),
+  };
+}
+
+export function checkDeviceBudget(
+  env: ProviderEnv,
+  deviceToken: string | null,
+  feature: UsageFeature,
+  requested: number,
+  now = Date.now()
+): BudgetCheck {
+  const limits = getServerLimits(env);
+  if (!limits) return { allowedImages: requested };
+
+  const { day, secondsIntoDay } = localClock(env, now);
+  // Allowed hours apply to everyone; daily counts need a device to count against
+  const used = (deviceToken && counts.get(`${deviceToken}|${day}`)) || { images: 0, scenes: 0 };
+  return evaluateBudget(deviceToken ? limits : { ...limits, imagesPerDay: 0, scenesPerDay: 0 }, used, feature, requested, secondsIntoDay);
+}
+
+// Picture hours on their own, checked before a cached answer is served
+export function checkAllowedHours(env: ProviderEnv, now = Date.now()): ApiErrorBody | null {
+  const limits = getServerLimits(env);
+  return limits && evaluateAllowedHours(limits, localClock(env, now).secondsIntoDay);
+}
+
+// Called for each picture delivered; the first one of a scene also counts the scene
+export function recordDeviceUsage(
+  env: ProviderEnv,
+  deviceToken: string | null,
+  used: UsedToday,
+  now = Date.now()
+): void {
+  if (!deviceToken || !getServerLimits(env)) return;
+
+  const { day } = localClock(env, now);
+  const key = `${deviceToken}|${day}`;
+  // Yesterday's counts are no longer needed
+  for (const old of counts.keys()) {
+    if (!old.endsWith(`|${day}`)) counts.delete(old);
+  }
+  const current = counts.get(key) || { images: 0, scenes: 0 };
+  counts.set(key, { images: current.images + used.images, scenes: current.scenes + used.scenes });
+}
@@ -0,0 +1,76 @@
+// Server-side kid-safe content policy
+// Same blocked-term filter the browser runs, plus size limits, so direct POSTs can't skip it
+
+import { checkContent, EMPTY_WORD_LISTS } from '../../src/services/contentFilter';
+import { getPromptTemplateFragments } from '../../src/services/promptTemplates';
+import type { ApiErrorBody, CustomWordLists } from '../../src/types';
+
+export const MAX_PROMPT_LENGTH = 4000;
+// Scenes have at most 3 animals, each with one portrait or sticker
+export const MAX_REFERENCE_IMAGES = 3;
+export const MAX_REFERENCE_IMAGE_LENGTH = 2_000_000;
+
+export interface PolicyInput {
+  prompt: string;
+  textOnlyPrompt?: string;
+  referenceImages: unknown[];
+}
+
+let serverWordLists: { source: string; lists: CustomWordLists } | null = null;
+
+// Words a family unblocked in Parent Mode only apply on their device; the server
+// takes its own additions from CONTENT_ALLOWED_TERMS (comma-separated)
+function getServerWordLists(): CustomWordLists {
+  const source = process.env.CONTENT_ALLOWED_TERMS || '';
+  if (serverWordLists?.source !== source) {
+    const allowed = source.split(',').map(term => term.trim()).filter(Boolean);
+    serverWordLists = { source, lists: allowed.length > 0 ? { ...EMPTY_WORD_LISTS, allowed } : EMPTY_WORD_LISTS };
+  }
+  return serverWordLists.lists;
+}
+
+// Remove our own template text so only the child's words (names, descriptions...) are checked
+function extractUserText(prompt: string): string {
+  let remaining = prompt;
+  for (const fragment of getPromptTemplateFragments()) {
+    remaining = remaining.split(fragment).join('\n');
+  }
+  return remaining;
+}
+
+// Returns an error body when the request breaks the policy, or null when it's fine
+export function checkContentPolicy({ prompt, textOnlyPrompt, referenceImages }: PolicyInput): ApiErrorBody | null {
+  const prompts = [prompt, textOnlyPrompt].filter((p): p is string => typeof p === 'string');
+
+  if (prompts.some(p => p.length > MAX_PROMPT_LENGTH)) {
+    return { error: 'Prompt too long', code: 'BAD_REQUEST', reason: 'PROMPT_TOO_LONG' };
+  }
+
+  if (referenceImages.length > MAX_REFERENCE_IMAGES) {
+    return { error: 'Too many reference images', code: 'BAD_REQUEST', reason: 'TOO_MANY_REFERENCES' };
+  }
+
+  for (const image of referenceImages) {
+    if (typeof image !== 'string' || !image.startsWith('data:image/')) {
+      return { error: 'Reference images must be image data URLs', code: 'BAD_REQUEST', reason: 'INVALID_REFERENCE' };
+    }
+    if (image.length > MAX_REFERENCE_IMAGE_LENGTH) {
+      return { error: 'Reference image too large', code: 'BAD_REQUEST', reason: 'REFERENCE_TOO_LARGE' };
+    }
+  }
+
+  for (const p of prompts) {
+    // Stricter age bands are applied on the device; the server holds the line every profile shares
+    const result = checkContent(extractUserText(p), { profile: 'tweens' }, getServerWordLists());
+    // The device already ran its filter, so this is usually a word a family unblocked only there
+    if (!result.isAllowed) {
+      return {
+        error: `"${result.matchedTerm}" is blocked by the server's kid-safe policy. Words unblocked in Parent Mode only apply on this device; add it to CONTENT_ALLOWED_TERMS in Vercel to allow it on the server too`,
+        code: 'CONTENT_REJECTED',
+        reason: 'SERVER_WORD_POLICY',
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,31 @@
+// Helpers for the base64 data URLs the app passes around as images
+
+export interface ParsedDataUrl {
+  mimeType: string;
+  base64: string;
+}
+
+export function parseDataUrl(dataUrl: string): ParsedDataUrl | null {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+  return { mimeType: match[1], base64: match[2] };
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob | null {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) return null;
+
+  const binary = atob(parsed.base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: parsed.mimeType });
+}
+
+// File extension for multipart uploads, which OpenAI uses to sniff the format
+export function extensionFor(mimeType: string): string {
+  if (mimeType === 'image/jpeg') return 'jpg';
+  if (mimeType === 'image/webp') return 'webp';
+  return 'png';
+}
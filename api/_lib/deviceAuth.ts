@@ -0,0 +1,139 @@
+// Family access: a passcode (FAMILY_PASSCODE) unlocks a device once, and the device
+// then sends a token signed with DEVICE_TOKEN_SECRET on every request.
+// Without FAMILY_PASSCODE the API stays open, as before.
+
+import type { ApiErrorBody, DeviceInfo } from '../../src/types';
+import type { ProviderEnv } from './providers';
+import { getStore } from './store';
+
+const DEVICES_KEY = 'family:devices';
+const REVOKED_KEY = 'family:revoked';
+
+// Slows down guessing; the rate limiter does the rest
+const WRONG_PASSCODE_DELAY_MS = 1000;
+
+export type DeviceAuthResult =
+  | { ok: true; deviceId: string | null }
+  | { ok: false; status: number; error: ApiErrorBody };
+
+export function isFamilyAccessEnabled(env: ProviderEnv): boolean {
+  return !!env.FAMILY_PASSCODE;
+}
+
+function base64Url(bytes: ArrayBuffer): string {
+  let binary = '';
+  for (const byte of new Uint8Array(bytes)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function hmac(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return base64Url(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+// Compares every character so the time taken doesn't give away how much matched
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function passcodeMatches(env: ProviderEnv, passcode: string): Promise<boolean> {
+  // Hashing both sides first keeps the comparison the same length whatever was typed
+  const matches = constantTimeEqual(
+    await hmac(env.DEVICE_TOKEN_SECRET!, passcode),
+    await hmac(env.DEVICE_TOKEN_SECRET!, env.FAMILY_PASSCODE!)
+  );
+  if (!matches) {
+    await new Promise(resolve => setTimeout(resolve, WRONG_PASSCODE_DELAY_MS));
+  }
+  return matches;
+}
+
+// "<device id>.<signature>"
+export async function signDeviceToken(env: ProviderEnv, deviceId: string): Promise<string> {
+  return `${deviceId}.${await hmac(env.DEVICE_TOKEN_SECRET!, `device:${deviceId}`)}`;
+}
+
+async function verifyDeviceToken(env: ProviderEnv, token: string): Promise<string | null> {
+  const [deviceId, signature] = token.split('.');
+  if (!deviceId || !signature) return null;
+  const expected = await hmac(env.DEVICE_TOKEN_SECRET!, `device:${deviceId}`);
+  return constantTimeEqual(signature, expected) ? deviceId : null;
+}
+
+// ============================================
+// Device registry (so Parent Mode can list and revoke devices)
+// Tokens are checked against a list of revoked ids rather than of known ones, so a store
+// that forgets (the in-memory one, after a restart) forgets revocations, not the family's devices
+// ============================================
+
+async function readList<T>(env: ProviderEnv, key: string): Promise<T[]> {
+  const stored = await getStore(env).get(key);
+  return stored ? JSON.parse(stored) : [];
+}
+
+export async function listDevices(env: ProviderEnv): Promise<DeviceInfo[]> {
+  return readList<DeviceInfo>(env, DEVICES_KEY);
+}
+
+async function saveDevices(env: ProviderEnv, devices: DeviceInfo[]): Promise<void> {
+  await getStore(env).set(DEVICES_KEY, JSON.stringify(devices));
+}
+
+export async function addDevice(env: ProviderEnv, name: string): Promise<DeviceInfo> {
+  const device: DeviceInfo = { id: crypto.randomUUID(), name, createdAt: Date.now() };
+  await saveDevices(env, [...await listDevices(env), device]);
+  return device;
+}
+
+export async function revokeDevice(env: ProviderEnv, deviceId: string): Promise<void> {
+  const revoked = await readList<string>(env, REVOKED_KEY);
+  if (!revoked.includes(deviceId)) {
+    await getStore(env).set(REVOKED_KEY, JSON.stringify([...revoked, deviceId]));
+  }
+  await saveDevices(env, (await listDevices(env)).filter(device => device.id !== deviceId));
+}
+
+// Only written once a minute or so, to keep store writes down
+const LAST_SEEN_RESOLUTION_MS = 60_000;
+
+async function touchDevice(env: ProviderEnv, deviceId: string): Promise<void> {
+  const now = Date.now();
+  const devices = await listDevices(env);
+  const device = devices.find(d => d.id === deviceId);
+  if (!device || (device.lastSeenAt && now - device.lastSeenAt < LAST_SEEN_RESOLUTION_MS)) return;
+  await saveDevices(env, devices.map(d => (d.id === deviceId ? { ...d, lastSeenAt: now } : d)));
+}
+
+// Checks the X-Device-Token header; deviceId is null when family access is off
+export async function authorizeDevice(request: Request, env: ProviderEnv): Promise<DeviceAuthResult> {
+  if (!isFamilyAccessEnabled(env)) {
+    return { ok: true, deviceId: null };
+  }
+  if (!env.DEVICE_TOKEN_SECRET) {
+    console.error('FAMILY_PASSCODE is set but DEVICE_TOKEN_SECRET is not');
+    return { ok: false, status: 500, error: { error: 'DEVICE_TOKEN_SECRET is not configured', code: 'AUTH' } };
+  }
+
+  const token = request.headers.get('X-Device-Token');
+  const deviceId = token ? await verifyDeviceToken(env, token) : null;
+
+  // A correctly signed token still fails once its device has been revoked
+  if (!deviceId || (await readList<string>(env, REVOKED_KEY)).includes(deviceId)) {
+    return {
+      ok: false,
+      status: 401,
+      error: { error: token ? 'Device token is invalid or revoked' : 'Device token missing', code: 'AUTH', reason: 'DEVICE_NOT_AUTHORIZED' },
+    };
+  }
+
+  await touchDevice(env, deviceId);
+  return { ok: true, deviceId };
+}
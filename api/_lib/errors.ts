@@ -0,0 +1,52 @@
+// Turns upstream failures into the typed error codes the client understands
+
+import type { ApiErrorCode } from '../../src/types';
+
+export interface ClassifiedError {
+  code: ApiErrorCode;
+  // Technical detail for Parent Mode, e.g. "OpenAI 429: Rate limit reached for images"
+  error: string;
+  retryAfter?: number;
+}
+
+// Failures that say nothing about the request itself; these count towards the circuit breaker
+export function isTransientCode(code: ApiErrorCode | undefined): boolean {
+  return code === 'RATE_LIMITED' || code === 'TIMEOUT' || code === 'PROVIDER_DOWN';
+}
+
+// Retry-After in seconds (only the numeric form; providers don't send dates)
+export function retryAfterSeconds(response: Response): number | undefined {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return seconds > 0 ? Math.ceil(seconds) : undefined;
+}
+
+function codeForStatus(status: number, detail: string): ApiErrorCode {
+  const text = detail.toLowerCase();
+
+  if (/quota|billing|insufficient|exceeded your current/.test(text) && status !== 401) return 'QUOTA';
+  if (/content.?policy|moderation|safety/.test(text)) return 'CONTENT_REJECTED';
+  if (status === 401 || status === 403) return 'AUTH';
+  if (status === 402) return 'QUOTA';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 408 || status === 504) return 'TIMEOUT';
+  if (status >= 500) return 'PROVIDER_DOWN';
+  return 'BAD_REQUEST';
+}
+
+// Read an upstream error response (OpenAI and Gemini both use { error: { message, code|status } })
+export async function classifyHttpError(label: string, response: Response): Promise<ClassifiedError> {
+  const data = await response.json().catch(() => ({}));
+  console.error(`${label} error:`, response.status, data);
+
+  const upstream = data?.error || {};
+  const detail = [upstream.code, upstream.type, upstream.status, upstream.message]
+    .filter((part): part is string => typeof part === 'string' && part.length > 0)
+    .join(' - ');
+  const code = codeForStatus(response.status, detail);
+
+  return {
+    code,
+    error: `${label} ${response.status}${detail ? `: ${detail}` : ''}`.slice(0, 300),
+    retryAfter: code === 'RATE_LIMITED' || code === 'PROVIDER_DOWN' ? retryAfterSeconds(response) : undefined,
+  };
+}
@@ -0,0 +1,36 @@
+// Server-side picture cache, keyed like the client's (see src/services/imageCache)
+// Off unless IMAGE_CACHE_TTL_SECONDS is set. Uses the key-value store, so with KV set up
+// each entry holds a scene's base64 pictures: check the KV plan's value size limit.
+
+import { computeCacheKey, CacheKeyParts } from '../../src/services/imageCache';
+import type { GenerationStreamEvent } from '../../src/types';
+import type { ProviderEnv } from './providers';
+import { getStore } from './store';
+
+export type CachedImageEvent = Extract<GenerationStreamEvent, { type: 'image' }>;
+
+export function isImageCacheEnabled(env: ProviderEnv): boolean {
+  return Number(env.IMAGE_CACHE_TTL_SECONDS) > 0;
+}
+
+export async function imageCacheKey(parts: CacheKeyParts): Promise<string> {
+  return `images:${await computeCacheKey(parts)}`;
+}
+
+export async function readImageCache(env: ProviderEnv, key: string): Promise<CachedImageEvent[] | null> {
+  try {
+    const stored = await getStore(env).get(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Image cache read error:', error);
+    return null;
+  }
+}
+
+export async function writeImageCache(env: ProviderEnv, key: string, events: CachedImageEvent[]): Promise<void> {
+  try {
+    await getStore(env).set(key, JSON.stringify(events), Number(env.IMAGE_CACHE_TTL_SECONDS));
+  } catch (error) {
+    console.error('Image cache write error:', error);
+  }
+}
@@ -0,0 +1,42 @@
+// Newline-delimited JSON responses, so the client can act on each line as it arrives
+
+// run() gets a signal that aborts when the client stops reading
+export function ndjsonResponse<T>(
+  run: (send: (event: T) => void, signal: AbortSignal) => Promise<void>,
+  requestSignal?: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  requestSignal?.addEventListener('abort', () => abort.abort());
+  // Set once the reader is gone and the stream can't be written to
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: T) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        }
+      };
+      try {
+        await run(send, abort.signal);
+      } catch (error) {
+        console.error('Stream error:', error);
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
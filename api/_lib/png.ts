@@ -0,0 +1,115 @@
+// Minimal PNG encoder for locally rendered placeholder images
+// Writes 8-bit RGB with uncompressed (stored) deflate blocks - no canvas or zlib needed
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const MAX_STORED_BLOCK = 65535;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function writeUint32(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  writeUint32(out, 0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  writeUint32(out, 8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// Wrap raw bytes in a zlib stream made of stored (uncompressed) blocks
+function zlibStore(raw: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(raw.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + blockCount * 5 + raw.length + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+
+  let offset = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK;
+    const length = Math.min(MAX_STORED_BLOCK, raw.length - start);
+    out[offset] = block === blockCount - 1 ? 1 : 0;
+    out[offset + 1] = length & 0xff;
+    out[offset + 2] = (length >>> 8) & 0xff;
+    out[offset + 3] = ~length & 0xff;
+    out[offset + 4] = (~length >>> 8) & 0xff;
+    out.set(raw.subarray(start, start + length), offset + 5);
+    offset += 5 + length;
+  }
+
+  writeUint32(out, offset, adler32(raw));
+  return out;
+}
+
+// Encode an RGB pixel buffer (width * height * 3 bytes) as PNG
+export function encodePng(width: number, height: number, rgb: Uint8Array): Uint8Array {
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: truecolor RGB
+
+  // Each scanline starts with a filter byte (0 = none)
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1);
+  }
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', zlibStore(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,21 @@
+// Run a batch of async jobs with a cap on how many are in flight at once
+// (no new jobs start once the signal is aborted)
+
+export async function runPool<T>(
+  count: number,
+  limit: number,
+  job: (index: number) => Promise<T>,
+  onResult: (result: T, index: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+
+  const worker = async () => {
+    while (next < count && !signal?.aborted) {
+      const index = next++;
+      onResult(await job(index), index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, worker));
+}
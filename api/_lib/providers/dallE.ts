@@ -0,0 +1,92 @@
+// OpenAI DALL-E 3 (fallback, no reference support)
+
+import { classifyHttpError } from '../errors';
+import { fetchWithRetry, isTimeoutError } from '../resilience';
+import { probeEndpoint } from './probe';
+import type { ImageAspect, ImageQuality } from '../../../src/types';
+import type { ImageProvider, ProviderEnv, ProviderRequest, ProviderResult } from './types';
+
+// How long one upstream attempt may take before it's abandoned (and retried)
+const TIMEOUT_MS = 40_000;
+
+// DALL-E 3 only has two levels, so a sketch is a standard picture
+const QUALITY: Record<ImageQuality, string> = {
+  sketch: 'standard',
+  standard: 'standard',
+  best: 'hd',
+};
+
+// Banners share the landscape size, the widest DALL-E 3 makes
+const SIZES: Record<ImageAspect, string> = {
+  square: '1024x1024',
+  landscape: '1792x1024',
+  portrait: '1024x1792',
+  banner: '1792x1024',
+};
+
+export const dallEProvider: ImageProvider = {
+  id: 'dall-e-3',
+  label: 'OpenAI DALL-E 3',
+  model: 'dall-e-3',
+  // 1024x1024; the other shapes cost more than this estimate
+  costPerImage: { sketch: 0.04, standard: 0.04, best: 0.08 },
+  requiredEnv: ['OPENAI_API_KEY'],
+  supportsReferenceImages: false,
+
+  isConfigured(env: ProviderEnv) {
+    return !!env.OPENAI_API_KEY;
+  },
+
+  canHandle() {
+    return true;
+  },
+
+  async generateImage({ prompt, quality, aspect, signal, deadline }: ProviderRequest, _index: number, env: ProviderEnv): Promise<ProviderResult> {
+    const apiKey = env.OPENAI_API_KEY!;
+
+    try {
+      return await fetchWithRetry('https://api.openai.com/v1/images/generations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: 'dall-e-3',
+          prompt: prompt,
+          n: 1,
+          size: SIZES[aspect],
+          response_format: 'b64_json',
+          quality: QUALITY[quality],
+          style: 'vivid',
+        }),
+      }, { timeoutMs: TIMEOUT_MS, signal, deadline }, async (response): Promise<ProviderResult> => {
+        if (!response.ok) {
+          return { success: false, ...await classifyHttpError('OpenAI DALL-E', response) };
+        }
+
+        const data = await response.json();
+
+        if (data.data?.[0]?.b64_json) {
+          return { success: true, image: `data:image/png;base64,${data.data[0].b64_json}` };
+        }
+        return { success: false, error: 'OpenAI DALL-E returned no image', code: 'PROVIDER_DOWN' };
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        return { success: false, error: 'Stopped' };
+      }
+      if (isTimeoutError(error)) {
+        return { success: false, error: 'OpenAI timed out', code: 'TIMEOUT' };
+      }
+      console.error('OpenAI request error:', error);
+      return { success: false, error: `OpenAI connection failed: ${(error as Error).message}`, code: 'PROVIDER_DOWN' };
+    }
+  },
+
+  selfTest(env: ProviderEnv, signal?: AbortSignal) {
+    return probeEndpoint('OpenAI DALL-E', 'https://api.openai.com/v1/models/dall-e-3', {
+      'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
+    }, signal);
+  },
+};
@@ -0,0 +1,118 @@
+// Gemini image generation
+// Reference images (the animals' portraits/stickers) go in as inline image parts next to the prompt
+
+import { ParsedDataUrl, parseDataUrl } from '../dataUrl';
+import { classifyHttpError } from '../errors';
+import { fetchWithRetry, isTimeoutError } from '../resilience';
+import { probeEndpoint } from './probe';
+import type { ImageAspect } from '../../../src/types';
+import type { ImageProvider, ProviderEnv, ProviderRequest, ProviderResult } from './types';
+
+// How long one upstream attempt may take before it's abandoned (and retried)
+const TIMEOUT_MS = 30_000;
+
+// Image types Gemini reads inline
+const INLINE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+// Gemini caps the whole request at 20MB; leave room for the prompt
+const MAX_INLINE_BASE64_LENGTH = 18_000_000;
+
+// This model has no size setting, so the shape is asked for in words
+const SHAPES: Record<ImageAspect, string> = {
+  square: 'a square',
+  landscape: 'a landscape (3:2)',
+  portrait: 'a portrait (2:3)',
+  banner: 'a wide banner (16:9)',
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  model: 'gemini-2.0-flash-exp',
+  // Free tier; Gemini has no quality setting, so every tier gets the same picture
+  costPerImage: { sketch: 0, standard: 0, best: 0 },
+  requiredEnv: ['GEMINI_API_KEY'],
+  supportsReferenceImages: true,
+
+  isConfigured(env: ProviderEnv) {
+    return !!env.GEMINI_API_KEY;
+  },
+
+  canHandle() {
+    return true;
+  },
+
+  async generateImage({ prompt, referenceImages, aspect, signal, deadline }: ProviderRequest, _index: number, env: ProviderEnv): Promise<ProviderResult> {
+    const apiKey = env.GEMINI_API_KEY!;
+
+    const references = referenceImages
+      .map(parseDataUrl)
+      .filter((reference): reference is ParsedDataUrl => !!reference && INLINE_IMAGE_TYPES.includes(reference.mimeType));
+
+    // Without readable references the prompt would point at pictures the model never sees
+    if (references.length !== referenceImages.length) {
+      return { success: false, error: 'Reference images could not be read', code: 'BAD_REQUEST' };
+    }
+    const inlineLength = references.reduce((total, reference) => total + reference.base64.length, 0);
+    if (inlineLength > MAX_INLINE_BASE64_LENGTH) {
+      return { success: false, error: 'Reference images are too large for Gemini', code: 'BAD_REQUEST' };
+    }
+    const imageParts = references.map(reference => ({
+      inline_data: { mime_type: reference.mimeType, data: reference.base64 },
+    }));
+
+    try {
+      return await fetchWithRetry(
+        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            contents: [{ parts: [{ text: `Generate ${SHAPES[aspect]} image: ${prompt}` }, ...imageParts] }],
+            generationConfig: {
+              responseModalities: ['IMAGE', 'TEXT'],
+            },
+          }),
+        },
+        { timeoutMs: TIMEOUT_MS, signal, deadline },
+        async (response): Promise<ProviderResult> => {
+          if (!response.ok) {
+            return { success: false, ...await classifyHttpError('Gemini', response) };
+          }
+
+          const data = await response.json();
+          const parts = data.candidates?.[0]?.content?.parts || [];
+
+          for (const part of parts) {
+            if (part.inlineData?.mimeType?.startsWith('image/')) {
+              return { success: true, image: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` };
+            }
+          }
+          // Gemini answers 200 with no picture when its own safety filter steps in
+          const blockReason = data.promptFeedback?.blockReason || data.candidates?.[0]?.finishReason;
+          if (blockReason === 'SAFETY' || blockReason === 'PROHIBITED_CONTENT' || blockReason === 'IMAGE_SAFETY') {
+            return { success: false, error: `Gemini blocked the prompt: ${blockReason}`, code: 'CONTENT_REJECTED' };
+          }
+          return { success: false, error: `Gemini returned no image${blockReason ? ` (${blockReason})` : ''}`, code: 'PROVIDER_DOWN' };
+        }
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        return { success: false, error: 'Stopped' };
+      }
+      if (isTimeoutError(error)) {
+        return { success: false, error: 'Gemini timed out', code: 'TIMEOUT' };
+      }
+      console.error('Gemini request error:', error);
+      return { success: false, error: `Gemini connection failed: ${(error as Error).message}`, code: 'PROVIDER_DOWN' };
+    }
+  },
+
+  selfTest(env: ProviderEnv, signal?: AbortSignal) {
+    return probeEndpoint(
+      'Gemini',
+      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp?key=${env.GEMINI_API_KEY}`,
+      {},
+      signal
+    );
+  },
+};
@@ -0,0 +1,105 @@
+// OpenAI GPT-Image-1 with reference images
+// Uses the multipart edits endpoint so the animals' portraits/stickers reach the model
+
+import { dataUrlToBlob, extensionFor } from '../dataUrl';
+import { classifyHttpError } from '../errors';
+import { fetchWithRetry, isTimeoutError } from '../resilience';
+import { probeEndpoint } from './probe';
+import type { ImageAspect, ImageQuality } from '../../../src/types';
+import type { ImageProvider, ProviderEnv, ProviderRequest, ProviderResult } from './types';
+
+// How long one upstream attempt may take before it's abandoned (and retried)
+const TIMEOUT_MS = 45_000;
+
+const QUALITY: Record<ImageQuality, string> = {
+  sketch: 'low',
+  standard: 'medium',
+  best: 'high',
+};
+
+// 3:2 is as wide as GPT-Image goes, so banners share the landscape size
+const SIZES: Record<ImageAspect, string> = {
+  square: '1024x1024',
+  landscape: '1536x1024',
+  portrait: '1024x1536',
+  banner: '1536x1024',
+};
+
+export const gptImageProvider: ImageProvider = {
+  id: 'gpt-image',
+  label: 'OpenAI GPT-Image-1',
+  model: 'gpt-image-1',
+  // 1024x1024, plus a little for the reference images sent in; the other shapes cost more than this estimate
+  costPerImage: { sketch: 0.02, standard: 0.05, best: 0.18 },
+  requiredEnv: ['OPENAI_API_KEY'],
+  supportsReferenceImages: true,
+
+  isConfigured(env: ProviderEnv) {
+    return !!env.OPENAI_API_KEY;
+  },
+
+  canHandle(request: ProviderRequest) {
+    return request.referenceImages.length > 0;
+  },
+
+  async generateImage({ prompt, referenceImages, quality, aspect, signal, deadline }: ProviderRequest, _index: number, env: ProviderEnv): Promise<ProviderResult> {
+    const apiKey = env.OPENAI_API_KEY!;
+
+    const referenceBlobs = referenceImages
+      .map(dataUrlToBlob)
+      .filter((blob): blob is Blob => !!blob);
+
+    // Without readable references the prompt would point at pictures the model never sees
+    if (referenceBlobs.length !== referenceImages.length) {
+      return { success: false, error: 'Reference images could not be read', code: 'BAD_REQUEST' };
+    }
+
+    try {
+      const form = new FormData();
+      form.append('model', 'gpt-image-1');
+      form.append('prompt', prompt);
+      form.append('n', '1');
+      form.append('size', SIZES[aspect]);
+      form.append('quality', QUALITY[quality]);
+      referenceBlobs.forEach((blob, index) => {
+        form.append('image[]', blob, `reference-${index + 1}.${extensionFor(blob.type)}`);
+      });
+
+      return await fetchWithRetry('https://api.openai.com/v1/images/edits', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: form,
+      }, { timeoutMs: TIMEOUT_MS, signal, deadline }, async (response): Promise<ProviderResult> => {
+        // If GPT-Image-1 fails, the handler falls back to the next provider
+        if (!response.ok) {
+          return { success: false, ...await classifyHttpError('OpenAI GPT-Image', response) };
+        }
+
+        const data = await response.json();
+
+        if (data.data?.[0]?.b64_json) {
+          return { success: true, image: `data:image/png;base64,${data.data[0].b64_json}` };
+        }
+        return { success: false, error: 'OpenAI GPT-Image returned no image', code: 'PROVIDER_DOWN' };
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        return { success: false, error: 'Stopped' };
+      }
+      if (isTimeoutError(error)) {
+        return { success: false, error: 'GPT-Image timed out', code: 'TIMEOUT' };
+      }
+      console.error('OpenAI vision request error:', error);
+      return { success: false, error: `OpenAI connection failed: ${(error as Error).message}`, code: 'PROVIDER_DOWN' };
+    }
+  },
+
+  // Looking up the model proves the key works and has access to it
+  selfTest(env: ProviderEnv, signal?: AbortSignal) {
+    return probeEndpoint('OpenAI GPT-Image', 'https://api.openai.com/v1/models/gpt-image-1', {
+      'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
+    }, signal);
+  },
+};
@@ -0,0 +1,65 @@
+// Image provider registry
+// Order comes from IMAGE_PROVIDERS (comma-separated ids), e.g. IMAGE_PROVIDERS=gemini,dall-e-3
+
+import { dallEProvider } from './dallE';
+import { geminiProvider } from './gemini';
+import { gptImageProvider } from './gptImage';
+import { mockProvider } from './mock';
+import type { ImageAspect, ImageQuality } from '../../../src/types';
+import type { ImageProvider, ProviderEnv } from './types';
+
+export type { ImageProvider, ProviderEnv, ProviderRequest, ProviderResult } from './types';
+
+const PROVIDERS: Record<string, ImageProvider> = {
+  [gptImageProvider.id]: gptImageProvider,
+  [geminiProvider.id]: geminiProvider,
+  [dallEProvider.id]: dallEProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+// GPT-Image for reference images, then free Gemini, then DALL-E 3 as the fallback
+const DEFAULT_PROVIDER_ORDER = ['gpt-image', 'gemini', 'dall-e-3'];
+
+export function getProvider(id: string): ImageProvider | undefined {
+  return PROVIDERS[id];
+}
+
+// Providers in the order they'd be tried, whether or not they're configured
+export function getProviderOrder(env: ProviderEnv): ImageProvider[] {
+  const order = env.IMAGE_PROVIDERS
+    ? env.IMAGE_PROVIDERS.split(',').map(id => id.trim()).filter(Boolean)
+    : DEFAULT_PROVIDER_ORDER;
+
+  const providers: ImageProvider[] = [];
+  for (const id of order) {
+    const provider = PROVIDERS[id];
+    if (!provider) {
+      console.warn(`Unknown image provider in IMAGE_PROVIDERS: ${id}`);
+      continue;
+    }
+    if (!providers.includes(provider)) {
+      providers.push(provider);
+    }
+  }
+  return providers;
+}
+
+// Providers to try, in order, limited to the ones configured in this environment
+export function getConfiguredProviders(env: ProviderEnv): ImageProvider[] {
+  return getProviderOrder(env).filter(provider => provider.isConfigured(env));
+}
+
+// Moves the family's chosen provider to the front; the rest stay behind it as fallbacks.
+// 'auto', or a provider that isn't configured here, leaves the order alone.
+export function preferProvider(providers: ImageProvider[], preferred: string): ImageProvider[] {
+  const first = providers.find(provider => provider.id === preferred);
+  return first ? [first, ...providers.filter(provider => provider !== first)] : providers;
+}
+
+export function isImageQuality(value: unknown): value is ImageQuality {
+  return value === 'sketch' || value === 'standard' || value === 'best';
+}
+
+export function isImageAspect(value: unknown): value is ImageAspect {
+  return value === 'square' || value === 'landscape' || value === 'portrait' || value === 'banner';
+}
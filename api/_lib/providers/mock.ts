@@ -0,0 +1,103 @@
+// Mock provider - deterministic placeholder pictures rendered locally
+// Lets the whole scene flow run offline without any API key (IMAGE_PROVIDERS=mock)
+
+import { bytesToBase64, encodePng } from '../png';
+import type { ApiErrorCode, ImageAspect, ImageQuality, ProviderSelfTest } from '../../../src/types';
+import type { ImageProvider, ProviderEnv, ProviderRequest, ProviderResult } from './types';
+
+// Bigger placeholders for higher quality, so the tier is easy to see
+const MOCK_SIZES: Record<ImageQuality, number> = {
+  sketch: 128,
+  standard: 256,
+  best: 512,
+};
+
+// Width and height as multiples of the size above
+const MOCK_SHAPES: Record<ImageAspect, [number, number]> = {
+  square: [1, 1],
+  landscape: [1.5, 1],
+  portrait: [1, 1.5],
+  banner: [16 / 9, 1],
+};
+
+// FNV-1a, so the same prompt always paints the same pictures
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+// Soft sky, rolling hill and a sun - colors and positions come from the seed
+export function renderPlaceholder(seed: number, width: number, height: number): string {
+  const rgb = new Uint8Array(width * height * 3);
+  const skyHue = seed % 360;
+  const hillHue = 90 + ((seed >>> 9) % 60);
+  const sunX = width * (0.2 + ((seed >>> 3) % 60) / 100);
+  const sunY = height * (0.15 + ((seed >>> 11) % 20) / 100);
+  const sunRadius = Math.min(width, height) * 0.1;
+  const wavePhase = ((seed >>> 5) % 628) / 100;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const horizon = height * 0.65 + Math.sin(x / width * Math.PI * 2 + wavePhase) * height * 0.06;
+      let color: [number, number, number];
+
+      if (y > horizon) {
+        color = hslToRgb(hillHue, 0.45, 0.55 - (y - horizon) / height * 0.3);
+      } else if (Math.hypot(x - sunX, y - sunY) < sunRadius) {
+        color = hslToRgb(45, 0.95, 0.7);
+      } else {
+        color = hslToRgb(skyHue, 0.6, 0.88 - (y / height) * 0.2);
+      }
+
+      const offset = (y * width + x) * 3;
+      rgb[offset] = color[0];
+      rgb[offset + 1] = color[1];
+      rgb[offset + 2] = color[2];
+    }
+  }
+
+  return `data:image/png;base64,${bytesToBase64(encodePng(width, height, rgb))}`;
+}
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Mock (offline placeholders)',
+  model: 'mock',
+  costPerImage: { sketch: 0, standard: 0, best: 0 },
+  requiredEnv: [],
+  supportsReferenceImages: true,
+
+  isConfigured() {
+    return true;
+  },
+
+  canHandle() {
+    return true;
+  },
+
+  async generateImage({ prompt, quality, aspect }: ProviderRequest, index: number): Promise<ProviderResult> {
+    const [width, height] = MOCK_SHAPES[aspect].map(scale => Math.round(MOCK_SIZES[quality] * scale));
+    return { success: true, image: renderPlaceholder(hashString(`${prompt}#${index}`), width, height) };
+  },
+
+  // Always passes, unless MOCK_SELF_TEST names the error code to pretend with (e.g. MOCK_SELF_TEST=AUTH)
+  async selfTest(env: ProviderEnv): Promise<ProviderSelfTest> {
+    const code = env.MOCK_SELF_TEST as ApiErrorCode | undefined;
+    return code
+      ? { ok: false, latencyMs: 0, code, error: `Mock self-test failing with ${code}` }
+      : { ok: true, latencyMs: 0 };
+  },
+};
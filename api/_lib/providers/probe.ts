@@ -0,0 +1,36 @@
+// Shared connectivity check behind each provider's selfTest()
+
+import type { ProviderSelfTest } from '../../../src/types';
+import { classifyHttpError } from '../errors';
+import { fetchWithRetry, isTimeoutError } from '../resilience';
+
+// A health check should answer quickly; one attempt, no retries
+const PROBE_TIMEOUT_MS = 8000;
+
+// GET a cheap endpoint (like a model lookup) and report whether it answered OK
+export async function probeEndpoint(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<ProviderSelfTest> {
+  const started = Date.now();
+
+  try {
+    return await fetchWithRetry(url, { headers }, { timeoutMs: PROBE_TIMEOUT_MS, signal, retries: 0 }, async (response): Promise<ProviderSelfTest> => {
+      const latencyMs = Date.now() - started;
+
+      if (!response.ok) {
+        const { code, error } = await classifyHttpError(`${label} self-test`, response);
+        return { ok: false, latencyMs, code, error };
+      }
+      return { ok: true, latencyMs };
+    });
+  } catch (error) {
+    const latencyMs = Date.now() - started;
+    if (isTimeoutError(error)) {
+      return { ok: false, latencyMs, code: 'TIMEOUT', error: `${label} did not answer within ${PROBE_TIMEOUT_MS / 1000}s` };
+    }
+    return { ok: false, latencyMs, code: 'PROVIDER_DOWN', error: `${label} connection failed: ${(error as Error).message}` };
+  }
+}
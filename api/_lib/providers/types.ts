@@ -0,0 +1,50 @@
+// Shared shapes for image providers used by /api/generate-image
+
+import type { ApiErrorCode, ImageAspect, ImageQuality, ProviderSelfTest } from '../../../src/types';
+
+export type ProviderEnv = Record<string, string | undefined>;
+
+export interface ProviderRequest {
+  prompt: string;
+  count: number;
+  referenceImages: string[];
+  quality: ImageQuality;
+  aspect: ImageAspect;
+  // Aborted when the client stops or disconnects; passed on to upstream fetches
+  signal?: AbortSignal;
+  // When the whole request must be finished (ms since epoch), so upstream calls end before the platform's limit
+  deadline?: number;
+}
+
+// One picture; the handler runs several of these at once
+export interface ProviderResult {
+  success: boolean;
+  image?: string;
+  // Technical detail, shown to parents only
+  error?: string;
+  code?: ApiErrorCode;
+  // Seconds to wait before trying again (rate limits)
+  retryAfter?: number;
+}
+
+export interface ImageProvider {
+  // Stable id used in IMAGE_PROVIDERS and in logs
+  id: string;
+  label: string;
+  // Upstream model name, recorded in the usage ledger
+  model: string;
+  // Rough list price in USD for one picture at the size we ask for, at each quality
+  costPerImage: Record<ImageQuality, number>;
+  // Environment variables isConfigured() looks for; shown on the diagnostics panel
+  requiredEnv: string[];
+  // Providers without reference support get the text-only prompt instead
+  supportsReferenceImages: boolean;
+  // Whether the provider has what it needs (API key etc.) in this environment
+  isConfigured(env: ProviderEnv): boolean;
+  // Whether the provider should be tried for this particular request
+  canHandle(request: ProviderRequest): boolean;
+  // Creates a single image; index is its position in the batch (0 to count - 1)
+  generateImage(request: ProviderRequest, index: number, env: ProviderEnv): Promise<ProviderResult>;
+  // Cheap request that proves the key works and the service answers, without making a picture
+  selfTest(env: ProviderEnv, signal?: AbortSignal): Promise<ProviderSelfTest>;
+}
@@ -0,0 +1,75 @@
+// Token-bucket rate limiting per device (or per IP when there's no device token)
+// Buckets live in the key-value store, so they're shared between instances when KV is set up
+
+import { getStore } from './store';
+import type { ProviderEnv } from './providers';
+
+export interface BucketOptions {
+  // Requests allowed in a burst
+  capacity: number;
+  // Tokens added back per second
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the next request would be allowed
+  retryAfter?: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Picture requests: a few in a row, then about one every ten seconds
+const DEFAULT_BURST = 5;
+const DEFAULT_PER_MINUTE = 6;
+
+export function generationBucket(env: ProviderEnv): BucketOptions {
+  return {
+    capacity: Number(env.RATE_LIMIT_BURST) || DEFAULT_BURST,
+    refillPerSecond: (Number(env.RATE_LIMIT_PER_MINUTE) || DEFAULT_PER_MINUTE) / 60,
+  };
+}
+
+// Passcode attempts: five, then one every ten minutes
+export const UNLOCK_BUCKET: BucketOptions = { capacity: 5, refillPerSecond: 1 / 600 };
+
+// Who to count a request against: the verified device, else the caller's IP
+export function rateLimitKey(request: Request, deviceId: string | null): string {
+  if (deviceId) return `device:${deviceId}`;
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  return `ip:${forwarded || request.headers.get('x-real-ip') || 'unknown'}`;
+}
+
+// Take one token from the bucket. The read and write aren't atomic, so two requests
+// landing together may both get through - close enough for a family app.
+export async function takeToken(
+  env: ProviderEnv,
+  key: string,
+  { capacity, refillPerSecond }: BucketOptions,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const store = getStore(env);
+
+  try {
+    const stored = await store.get(`ratelimit:${key}`);
+    const state: BucketState = stored ? JSON.parse(stored) : { tokens: capacity, updatedAt: now };
+    const tokens = Math.min(capacity, state.tokens + ((now - state.updatedAt) / 1000) * refillPerSecond);
+    // An untouched bucket refills completely in this long, after which it can be forgotten
+    const ttlSeconds = capacity / refillPerSecond;
+
+    if (tokens < 1) {
+      await store.set(`ratelimit:${key}`, JSON.stringify({ tokens, updatedAt: now }), ttlSeconds);
+      return { allowed: false, retryAfter: Math.ceil((1 - tokens) / refillPerSecond) };
+    }
+
+    await store.set(`ratelimit:${key}`, JSON.stringify({ tokens: tokens - 1, updatedAt: now }), ttlSeconds);
+    return { allowed: true };
+  } catch (error) {
+    // A broken store shouldn't stop the pictures
+    console.error('Rate limit store error:', error);
+    return { allowed: true };
+  }
+}
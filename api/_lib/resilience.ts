@@ -0,0 +1,167 @@
+// Timeouts, retries and a circuit breaker for calls to image providers
+
+import type { ApiErrorBody } from '../../src/types';
+
+const MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 4000;
+// Shortest attempt worth starting; with less time left the request ends with what it has
+const MIN_ATTEMPT_MS = 5000;
+
+// A provider that fails this many requests in a row is skipped for a while
+const BREAKER_THRESHOLD = 3;
+const BREAKER_COOLDOWN_MS = 60_000;
+
+// Same name AbortSignal.timeout() uses, so callers can tell a timeout from a stop
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'TimeoutError';
+}
+
+// Rate limits and server errors are worth another try; other 4xx are not
+export function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Exponential backoff with full jitter, or the server's Retry-After when it sends one
+function backoffDelay(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+  return Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+}
+
+export interface ResilientFetchOptions {
+  timeoutMs: number;
+  // The caller's signal; aborting it stops retries straight away
+  signal?: AbortSignal;
+  // When the whole request has to be finished (ms since epoch); attempts are shortened to fit
+  deadline?: number;
+  retries?: number;
+}
+
+// Whether a request that must end by the deadline still has time for an attempt worth starting
+export function hasTimeLeft(deadline: number, now = Date.now()): boolean {
+  return deadline - now >= MIN_ATTEMPT_MS;
+}
+
+// fetch() with a per-attempt timeout and bounded retries for 429/5xx and network errors.
+// read() gets the last response (which may still be an error) while the timeout and the caller's
+// signal still apply, so a body that stalls times out and Stop cancels it; throws the last error.
+export async function fetchWithRetry<T>(
+  url: string,
+  init: RequestInit,
+  { timeoutMs, signal, deadline = Infinity, retries = MAX_RETRIES }: ResilientFetchOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new DOMException('Aborted', 'AbortError');
+    }
+    const attemptMs = Math.min(timeoutMs, deadline - Date.now());
+    if (attemptMs <= 0) {
+      throw new DOMException('No time left for this request', 'TimeoutError');
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => {
+      controller.abort(new DOMException(`Timed out after ${attemptMs}ms`, 'TimeoutError'));
+    }, attemptMs);
+    // Another try only when it fits before the deadline, wait included
+    const canRetry = (delay: number) => attempt < retries && hasTimeLeft(deadline, Date.now() + delay);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, { ...init, signal: controller.signal });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        const failure = isTimeoutError(controller.signal.reason) ? controller.signal.reason : error;
+        const delay = backoffDelay(attempt);
+        if (!canRetry(delay)) throw failure;
+        console.log(`Retrying ${new URL(url).host} after ${(failure as Error).message} (attempt ${attempt + 1})`);
+        await sleep(delay, signal);
+        continue;
+      }
+
+      if (isTransientStatus(response.status)) {
+        const delay = backoffDelay(attempt, response);
+        if (canRetry(delay)) {
+          console.log(`Retrying ${new URL(url).host} after ${response.status} (attempt ${attempt + 1})`);
+          await sleep(delay, signal);
+          continue;
+        }
+      }
+
+      try {
+        return await read(response);
+      } catch (error) {
+        throw isTimeoutError(controller.signal.reason) ? controller.signal.reason : error;
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+// ============================================
+// Circuit breaker
+// Lives in the edge instance's memory, so it resets whenever the instance does
+// ============================================
+
+interface BreakerState {
+  failures: number;
+  openUntil: number;
+}
+
+const breakers = new Map<string, BreakerState>();
+
+// Last outcome per provider, reported by /api/status
+export interface ProviderHealth {
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: ApiErrorBody;
+}
+
+const health = new Map<string, ProviderHealth>();
+
+export function isCircuitOpen(providerId: string, now = Date.now()): boolean {
+  const state = breakers.get(providerId);
+  return !!state && state.openUntil > now;
+}
+
+export function recordSuccess(providerId: string, now = Date.now()): void {
+  breakers.delete(providerId);
+  health.set(providerId, { ...health.get(providerId), lastSuccessAt: now });
+}
+
+export function recordFailure(providerId: string, now = Date.now()): void {
+  const state = breakers.get(providerId) || { failures: 0, openUntil: 0 };
+  state.failures++;
+  if (state.failures >= BREAKER_THRESHOLD) {
+    state.openUntil = now + BREAKER_COOLDOWN_MS;
+    state.failures = 0;
+    console.log(`Circuit open for ${providerId} for ${BREAKER_COOLDOWN_MS / 1000}s`);
+  }
+  breakers.set(providerId, state);
+}
+
+// Any failure, transient or not (stops by the client aren't failures)
+export function recordError(providerId: string, error: ApiErrorBody, now = Date.now()): void {
+  health.set(providerId, { ...health.get(providerId), lastFailureAt: now, lastError: error });
+}
+
+export function getProviderHealth(providerId: string): ProviderHealth {
+  return health.get(providerId) || {};
+}
@@ -0,0 +1,110 @@
+// Small key-value storage adapter for state that should outlive one request
+// Uses a KV REST API (Vercel KV / Upstash) when KV_REST_API_URL and KV_REST_API_TOKEN are set,
+// otherwise the edge instance's memory, which is fine locally but resets with the instance
+
+import type { ProviderEnv } from './providers';
+
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  // ttlSeconds makes the key expire on its own
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const KV_TIMEOUT_MS = 5000;
+
+// The memory store holds whole cached picture sets, so it's capped in entries and in size.
+// Only keys with a TTL are evicted; the device list and revocations have none and stay small.
+const MAX_MEMORY_ENTRIES = 1000;
+const MAX_MEMORY_CHARS = 64_000_000;
+
+export function createMemoryStore(): KeyValueStore {
+  // Map order doubles as recency: reads and writes move a key to the end
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+  let totalChars = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    totalChars -= entry.value.length;
+    entries.delete(key);
+  };
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value, ttlSeconds) {
+      const now = Date.now();
+      remove(key);
+      for (const [other, entry] of entries) {
+        if (entry.expiresAt <= now) remove(other);
+      }
+      entries.set(key, { value, expiresAt: ttlSeconds ? now + ttlSeconds * 1000 : Infinity });
+      totalChars += value.length;
+
+      // Least recently used first
+      for (const [other, entry] of entries) {
+        if (entries.size <= MAX_MEMORY_ENTRIES && totalChars <= MAX_MEMORY_CHARS) break;
+        if (entry.expiresAt !== Infinity) remove(other);
+      }
+    },
+
+    async delete(key) {
+      remove(key);
+    },
+  };
+}
+
+// Redis commands over the REST API, e.g. ["SET", "key", "value", "EX", "60"]
+export function createKvRestStore(url: string, token: string): KeyValueStore {
+  const command = async (args: string[]): Promise<unknown> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(KV_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`KV ${args[0]} failed: ${response.status}`);
+    }
+    const data = await response.json();
+    return data.result;
+  };
+
+  return {
+    async get(key) {
+      const result = await command(['GET', key]);
+      return typeof result === 'string' ? result : null;
+    },
+
+    async set(key, value, ttlSeconds) {
+      await command(ttlSeconds ? ['SET', key, value, 'EX', String(Math.ceil(ttlSeconds))] : ['SET', key, value]);
+    },
+
+    async delete(key) {
+      await command(['DEL', key]);
+    },
+  };
+}
+
+let memoryStore: KeyValueStore | null = null;
+
+export function getStore(env: ProviderEnv): KeyValueStore {
+  if (env.KV_REST_API_URL && env.KV_REST_API_TOKEN) {
+    return createKvRestStore(env.KV_REST_API_URL, env.KV_REST_API_TOKEN);
+  }
+  if (!memoryStore) {
+    memoryStore = createMemoryStore();
+  }
+  return memoryStore;
+}
@@ -0,0 +1,56 @@
+// Vercel Serverless Function for Family Access
+// Swaps the family passcode for a signed device token (see api/_lib/deviceAuth)
+
+import type { DeviceTokenResponse } from '../src/types';
+import { addDevice, isFamilyAccessEnabled, passcodeMatches, signDeviceToken } from './_lib/deviceAuth';
+import { jsonResponse } from './_lib/http';
+import { rateLimitKey, takeToken, UNLOCK_BUCKET } from './_lib/rateLimit';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const MAX_DEVICE_NAME_LENGTH = 40;
+
+export default async function handler(request: Request) {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed', code: 'BAD_REQUEST' }, 405);
+  }
+
+  const env = process.env;
+  if (!isFamilyAccessEnabled(env)) {
+    return jsonResponse({ error: 'Family access is not turned on (no FAMILY_PASSCODE)', code: 'BAD_REQUEST' }, 400);
+  }
+  if (!env.DEVICE_TOKEN_SECRET) {
+    return jsonResponse({ error: 'DEVICE_TOKEN_SECRET is not configured', code: 'AUTH' }, 500);
+  }
+
+  // Guessing the passcode gets slow quickly
+  const rateLimit = await takeToken(env, `unlock:${rateLimitKey(request, null)}`, UNLOCK_BUCKET);
+  if (!rateLimit.allowed) {
+    return jsonResponse(
+      { error: `Too many tries. Wait ${Math.ceil(rateLimit.retryAfter! / 60)} minutes and try again.`, code: 'RATE_LIMITED', retryAfter: rateLimit.retryAfter },
+      429,
+      { 'Retry-After': String(rateLimit.retryAfter) }
+    );
+  }
+
+  try {
+    const { passcode, name } = await request.json();
+
+    if (typeof passcode !== 'string' || !(await passcodeMatches(env, passcode))) {
+      console.log('Device unlock rejected: wrong passcode');
+      return jsonResponse({ error: 'Wrong passcode', code: 'AUTH' }, 401);
+    }
+
+    const deviceName = (typeof name === 'string' && name.trim().slice(0, MAX_DEVICE_NAME_LENGTH)) || 'Unnamed device';
+    const device = await addDevice(env, deviceName);
+    console.log(`Device unlocked: ${device.name} (${device.id})`);
+
+    const body: DeviceTokenResponse = { token: await signDeviceToken(env, device.id), device };
+    return jsonResponse(body);
+  } catch (error) {
+    console.error('Device token error:', error);
+    return jsonResponse({ error: `Server error: ${(error as Error).message}`, code: 'PROVIDER_DOWN' }, 500);
+  }
+}
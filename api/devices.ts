@@ -0,0 +1,45 @@
+// Vercel Serverless Function for Unlocked Devices
+// GET lists the devices unlocked with the family passcode; DELETE ?id=... revokes one.
+// Any unlocked device may do either - Parent Mode is where this lives.
+
+import type { DevicesResponse } from '../src/types';
+import { authorizeDevice, isFamilyAccessEnabled, listDevices, revokeDevice } from './_lib/deviceAuth';
+import { jsonResponse } from './_lib/http';
+
+export const config = {
+  runtime: 'edge',
+};
+
+export default async function handler(request: Request) {
+  if (request.method !== 'GET' && request.method !== 'DELETE') {
+    return jsonResponse({ error: 'Method not allowed', code: 'BAD_REQUEST' }, 405);
+  }
+
+  const env = process.env;
+  if (!isFamilyAccessEnabled(env)) {
+    const body: DevicesResponse = { enabled: false, devices: [], currentDeviceId: null };
+    return jsonResponse(body);
+  }
+
+  const auth = await authorizeDevice(request, env);
+  if (!auth.ok) {
+    return jsonResponse(auth.error, auth.status);
+  }
+
+  try {
+    if (request.method === 'DELETE') {
+      const id = new URL(request.url).searchParams.get('id');
+      if (!id) {
+        return jsonResponse({ error: 'Device id is required', code: 'BAD_REQUEST' }, 400);
+      }
+      await revokeDevice(env, id);
+      console.log(`Device revoked: ${id}`);
+    }
+
+    const body: DevicesResponse = { enabled: true, devices: await listDevices(env), currentDeviceId: auth.deviceId };
+    return jsonResponse(body, 200, { 'Cache-Control': 'no-store' });
+  } catch (error) {
+    console.error('Devices error:', error);
+    return jsonResponse({ error: `Server error: ${(error as Error).message}`, code: 'PROVIDER_DOWN' }, 500);
+  }
+}
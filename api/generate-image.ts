@@ -1,272 +1,255 @@
 // Vercel Serverless Function for Image Generation
-// Uses OpenAI GPT-Image-1 with reference image support
+// Tries each configured image provider in order (see api/_lib/providers)
+// and streams every picture back as NDJSON as soon as it is ready.
+// GET lists the providers configured here, for Parent Mode's model picker.
+
+import type { ApiErrorBody, AvailableProvidersResponse, GenerationStreamEvent, UsageLine } from '../src/types';
+import { checkAllowedHours, checkDeviceBudget, recordDeviceUsage } from './_lib/budget';
+import { checkContentPolicy } from './_lib/contentPolicy';
+import { authorizeDevice } from './_lib/deviceAuth';
+import { isTransientCode } from './_lib/errors';
+import { jsonResponse } from './_lib/http';
+import { CachedImageEvent, imageCacheKey, isImageCacheEnabled, readImageCache, writeImageCache } from './_lib/imageCache';
+import { ndjsonResponse } from './_lib/ndjson';
+import { runPool } from './_lib/pool';
+import { getConfiguredProviders, isImageAspect, isImageQuality, preferProvider } from './_lib/providers';
+import { generationBucket, rateLimitKey, takeToken } from './_lib/rateLimit';
+import { hasTimeLeft, isCircuitOpen, recordError, recordFailure, recordSuccess } from './_lib/resilience';
 
 export const config = {
   runtime: 'edge',
   maxDuration: 60,
 };
 
+// Images requested from one provider at the same time
+const MAX_CONCURRENT_IMAGES = 3;
+
+// Upstream calls, retries and fallbacks all end by then, leaving time before maxDuration to send the last event
+const REQUEST_DEADLINE_MS = 50_000;
+
+// Most pictures one request can ask for
+const MAX_IMAGES_PER_REQUEST = 4;
+
+// What Parent Mode's model picker can offer
+function listProviders(): Response {
+  const body: AvailableProvidersResponse = {
+    providers: getConfiguredProviders(process.env).map(provider => ({
+      id: provider.id,
+      label: provider.label,
+      model: provider.model,
+      supportsReferenceImages: provider.supportsReferenceImages,
+      costPerImage: provider.costPerImage,
+    })),
+  };
+  return jsonResponse(body);
+}
+
 export default async function handler(request: Request) {
+  if (request.method === 'GET') {
+    return listProviders();
+  }
   if (request.method !== 'POST') {
-    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-      status: 405,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return jsonResponse({ error: 'Method not allowed', code: 'BAD_REQUEST' }, 405);
   }
+  const deadline = Date.now() + REQUEST_DEADLINE_MS;
 
-  const openaiKey = process.env.OPENAI_API_KEY;
-  const geminiKey = process.env.GEMINI_API_KEY;
+  const auth = await authorizeDevice(request, process.env);
+  if (!auth.ok) {
+    return jsonResponse(auth.error, auth.status);
+  }
 
-  if (!openaiKey && !geminiKey) {
-    return new Response(
-      JSON.stringify({ error: 'No API key configured' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
+  const rateLimit = await takeToken(process.env, rateLimitKey(request, auth.deviceId), generationBucket(process.env));
+  if (!rateLimit.allowed) {
+    console.log(`Rate limited for ${rateLimit.retryAfter}s`);
+    return jsonResponse(
+      { error: 'Too many picture requests from this device', code: 'RATE_LIMITED', retryAfter: rateLimit.retryAfter },
+      429,
+      { 'Retry-After': String(rateLimit.retryAfter) }
     );
   }
 
+  const providers = getConfiguredProviders(process.env);
+
+  if (providers.length === 0) {
+    return jsonResponse({ error: 'No API key configured', code: 'AUTH' }, 500);
+  }
+
+  // A body that isn't a JSON object is a bad request, not a provider outage
+  let body;
   try {
-    const { prompt, count = 1, referenceImages = [] } = await request.json();
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== 'object') {
+    return jsonResponse({ error: 'Request body must be a JSON object', code: 'BAD_REQUEST' }, 400);
+  }
 
-    if (!prompt) {
-      return new Response(
-        JSON.stringify({ error: 'Prompt is required' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      );
+  try {
+    const {
+      prompt,
+      textOnlyPrompt,
+      count: requestedCount = 1,
+      referenceImages = [],
+      feature = 'scene',
+      fresh = false,
+      provider: preferred = 'auto',
+      quality: requestedQuality,
+      aspect: requestedAspect,
+    } = body;
+    const quality = isImageQuality(requestedQuality) ? requestedQuality : 'standard';
+    const aspect = isImageAspect(requestedAspect) ? requestedAspect : 'square';
+
+    if (!prompt || typeof prompt !== 'string' || !Array.isArray(referenceImages)) {
+      return jsonResponse({ error: 'Prompt is required', code: 'BAD_REQUEST' }, 400);
     }
-
-    // If we have reference images and OpenAI key, use GPT-Image-1 (supports image inputs)
-    if (referenceImages.length > 0 && openaiKey) {
-      const result = await generateWithOpenAIVision(prompt, openaiKey, Math.min(count, 4), referenceImages);
-      if (result.success) {
-        return new Response(JSON.stringify(result), {
-          status: 200,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
-      console.log('OpenAI vision failed:', result.error);
+    if (!Number.isInteger(requestedCount) || requestedCount < 1) {
+      return jsonResponse({ error: 'Count must be a whole number of at least 1', code: 'BAD_REQUEST' }, 400);
     }
+    const count = Math.min(requestedCount, MAX_IMAGES_PER_REQUEST);
 
-    // Try Gemini (no reference image support yet)
-    if (geminiKey && referenceImages.length === 0) {
-      const result = await generateWithGemini(prompt, geminiKey, Math.min(count, 4));
-      if (result.success) {
-        return new Response(JSON.stringify(result), {
-          status: 200,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
-      console.log('Gemini failed:', result.error);
+    const policyError = checkContentPolicy({ prompt, textOnlyPrompt, referenceImages });
+    if (policyError) {
+      console.log('Request rejected by content policy:', policyError.reason || policyError.code);
+      return jsonResponse(policyError, 400);
     }
 
-    // Fall back to OpenAI DALL-E 3 (no reference support but good quality)
-    if (openaiKey) {
-      const result = await generateWithOpenAI(prompt, openaiKey, Math.min(count, 4));
-      return new Response(JSON.stringify(result), {
-        status: result.success ? 200 : 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Picture hours apply to every answer, cached or not
+    const outsideHours = checkAllowedHours(process.env);
+    if (outsideHours) {
+      console.log('Request rejected by allowed hours:', outsideHours.error);
+      return jsonResponse(outsideHours, 429, { 'Retry-After': String(outsideHours.retryAfter) });
     }
 
-    return new Response(
-      JSON.stringify({ error: 'Image generation failed' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
-  } catch (error) {
-    console.error('Handler error:', error);
-    return new Response(
-      JSON.stringify({ error: 'Server error' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
-  }
-}
-
-// OpenAI GPT-Image-1 with reference images
-async function generateWithOpenAIVision(
-  prompt: string,
-  apiKey: string,
-  count: number,
-  referenceImages: string[]
-): Promise<{ success: boolean; images?: string[]; error?: string }> {
-  const images: string[] = [];
-
-  for (let i = 0; i < count; i++) {
-    try {
-      // Build content array with text and reference images
-      const content: Array<{ type: string; text?: string; image_url?: { url: string } }> = [
-        { type: 'text', text: prompt }
-      ];
-
-      // Add reference images
-      for (const refImage of referenceImages) {
-        content.push({
-          type: 'image_url',
-          image_url: { url: refImage }
+    // A cached answer costs nothing, so it's served before the daily limits are checked
+    const cacheKey = isImageCacheEnabled(process.env)
+      ? await imageCacheKey({ prompt, textOnlyPrompt, referenceImages, count, providerOptions: { provider: preferred, quality, aspect } })
+      : null;
+    const cachedEvents = cacheKey && !fresh ? await readImageCache(process.env, cacheKey) : null;
+    if (cachedEvents) {
+      console.log(`Serving ${cachedEvents.length} cached images`);
+      return ndjsonResponse<GenerationStreamEvent>(async (send) => {
+        for (const event of cachedEvents) send({ ...event, estimatedCost: 0 });
+        send({
+          type: 'done',
+          count: cachedEvents.length,
+          usedReferenceImages: cachedEvents.every(event => event.usedReferenceImages),
+          providers: [...new Set(cachedEvents.map(event => event.provider))],
+          usage: [],
+          durationMs: 0,
+          cached: true,
         });
-      }
-
-      const response = await fetch('https://api.openai.com/v1/images/generations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-image-1',
-          prompt: prompt,
-          n: 1,
-          size: '1024x1024',
-          quality: 'medium',
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('OpenAI GPT-Image error:', response.status, errorData);
-        
-        // If GPT-Image-1 fails, return error to try fallback
-        return { success: false, error: `GPT-Image error: ${response.status}` };
-      }
-
-      const data = await response.json();
-
-      if (data.data?.[0]?.b64_json) {
-        images.push(`data:image/png;base64,${data.data[0].b64_json}`);
-      } else if (data.data?.[0]?.url) {
-        // Fetch and convert to base64
-        try {
-          const imgResp = await fetch(data.data[0].url);
-          const blob = await imgResp.blob();
-          const buffer = await blob.arrayBuffer();
-          const base64 = btoa(String.fromCharCode(...new Uint8Array(buffer)));
-          images.push(`data:image/png;base64,${base64}`);
-        } catch {
-          images.push(data.data[0].url);
-        }
-      }
-    } catch (error) {
-      console.error('OpenAI vision request error:', error);
-      return { success: false, error: 'OpenAI connection failed' };
+      }, request.signal);
     }
-  }
-
-  if (images.length === 0) {
-    return { success: false, error: 'No images generated' };
-  }
-
-  return { success: true, images };
-}
-
-// Gemini image generation (no reference image support)
-async function generateWithGemini(
-  prompt: string,
-  apiKey: string,
-  count: number
-): Promise<{ success: boolean; images?: string[]; error?: string }> {
-  const images: string[] = [];
-
-  for (let i = 0; i < count; i++) {
-    try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: `Generate an image: ${prompt}` }] }],
-            generationConfig: {
-              responseModalities: ['IMAGE', 'TEXT'],
-            },
-          }),
-        }
-      );
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('Gemini error:', response.status, errorData);
-        
-        if (response.status === 429) {
-          return { success: false, error: 'Rate limited' };
-        }
-        return { success: false, error: `Gemini error: ${response.status}` };
-      }
-
-      const data = await response.json();
+    // With family access on, limits count against the verified device; otherwise against whatever id the device sent
+    const deviceToken = auth.deviceId || request.headers.get('X-Device-Token');
+    const budget = checkDeviceBudget(process.env, deviceToken, feature === 'portrait' ? 'portrait' : 'scene', count);
+    if (budget.exhausted) {
+      console.log('Request rejected by daily limits:', budget.exhausted.error);
+      return jsonResponse(budget.exhausted, 429, { 'Retry-After': String(budget.exhausted.retryAfter) });
+    }
 
-      const parts = data.candidates?.[0]?.content?.parts || [];
-      for (const part of parts) {
-        if (part.inlineData?.mimeType?.startsWith('image/')) {
-          images.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
+    const providerRequest = { prompt, count: budget.allowedImages, referenceImages, quality, aspect, deadline };
+    const suitable = preferProvider(providers, preferred).filter(provider => provider.canHandle(providerRequest));
+    // Skip providers that keep failing, unless that would leave nothing to try
+    const healthy = suitable.filter(provider => !isCircuitOpen(provider.id));
+    const candidates = healthy.length > 0 ? healthy : suitable;
+
+    return ndjsonResponse<GenerationStreamEvent>(async (send, signal) => {
+      const started = Date.now();
+      // Whether each delivered image was made with the reference pictures
+      const delivered: boolean[] = [];
+      const servedBy: string[] = [];
+      const usage: UsageLine[] = [];
+      const imageEvents: CachedImageEvent[] = [];
+      let remaining = providerRequest.count;
+      let lastError: ApiErrorBody = { error: 'Image generation failed', code: 'PROVIDER_DOWN' };
+
+      // Images a provider couldn't make are retried on the next one
+      for (const provider of candidates) {
+        if (remaining === 0 || signal.aborted) break;
+        if (!hasTimeLeft(deadline)) {
+          console.log(`No time left to try ${provider.label}`);
           break;
         }
-      }
-    } catch (error) {
-      console.error('Gemini request error:', error);
-      return { success: false, error: 'Gemini connection failed' };
-    }
-  }
-
-  if (images.length === 0) {
-    return { success: false, error: 'No images generated' };
-  }
-
-  return { success: true, images };
-}
-
-// OpenAI DALL-E 3 (fallback, no reference support)
-async function generateWithOpenAI(
-  prompt: string,
-  apiKey: string,
-  count: number
-): Promise<{ success: boolean; images?: string[]; error?: string }> {
-  const images: string[] = [];
 
-  for (let i = 0; i < count; i++) {
-    try {
-      const response = await fetch('https://api.openai.com/v1/images/generations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'dall-e-3',
-          prompt: prompt,
-          n: 1,
-          size: '1024x1024',
-          response_format: 'b64_json',
-          quality: 'standard',
-          style: 'vivid',
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('OpenAI DALL-E error:', response.status, errorData);
-
-        if (response.status === 401) {
-          return { success: false, error: 'Invalid API key' };
+        // Providers that can't see the references get the prompt that describes the animals in words
+        const usedReferenceImages = provider.supportsReferenceImages && referenceImages.length > 0;
+        const imageRequest = usedReferenceImages
+          ? { ...providerRequest, count: remaining, signal }
+          : { ...providerRequest, count: remaining, signal, prompt: textOnlyPrompt || prompt, referenceImages: [] };
+        let failed = 0;
+        // One bad request counts once against the breaker, however many of its pictures failed
+        let transientFailure = false;
+        const line: UsageLine = { provider: provider.id, model: provider.model, images: 0, estimatedCost: 0 };
+
+        await runPool(remaining, MAX_CONCURRENT_IMAGES, (index) => provider.generateImage(imageRequest, index, process.env), (result) => {
+          if (result.success && result.image) {
+            recordSuccess(provider.id);
+            recordDeviceUsage(process.env, deviceToken, { images: 1, scenes: delivered.length === 0 && feature !== 'portrait' ? 1 : 0 });
+            const event: CachedImageEvent = {
+              type: 'image',
+              index: delivered.length,
+              image: result.image,
+              usedReferenceImages,
+              provider: provider.id,
+              model: provider.model,
+              estimatedCost: provider.costPerImage[quality],
+            };
+            send(event);
+            imageEvents.push(event);
+            delivered.push(usedReferenceImages);
+            line.images++;
+            line.estimatedCost += provider.costPerImage[quality];
+            if (!servedBy.includes(provider.id)) servedBy.push(provider.id);
+          } else {
+            failed++;
+            lastError = {
+              error: result.error || lastError.error,
+              code: result.code || 'PROVIDER_DOWN',
+              retryAfter: result.retryAfter,
+              provider: provider.id,
+            };
+            if (!signal.aborted) {
+              recordError(provider.id, lastError);
+              if (isTransientCode(result.code)) transientFailure = true;
+            }
+          }
+        }, signal);
+
+        if (line.images > 0) usage.push(line);
+        if (transientFailure && !signal.aborted) recordFailure(provider.id);
+        if (signal.aborted) {
+          console.log('Generation stopped by the client');
+          return;
         }
-        if (response.status === 429) {
-          return { success: false, error: 'Rate limited' };
+        if (failed > 0) {
+          console.log(`${provider.label} failed ${failed} of ${remaining}:`, lastError.code, lastError.error);
         }
-
-        return { success: false, error: `OpenAI error: ${response.status}` };
+        remaining = failed;
       }
 
-      const data = await response.json();
-
-      if (data.data?.[0]?.b64_json) {
-        images.push(`data:image/png;base64,${data.data[0].b64_json}`);
+      // The last provider's error goes back to the client
+      if (delivered.length === 0) {
+        send({ type: 'error', ...lastError });
+      } else {
+        // Only complete sets are cached, so a repeat never comes back short
+        if (cacheKey && delivered.length === count) {
+          await writeImageCache(process.env, cacheKey, imageEvents);
+        }
+        send({
+          type: 'done',
+          count: delivered.length,
+          usedReferenceImages: delivered.every(Boolean),
+          providers: servedBy,
+          usage,
+          durationMs: Date.now() - started,
+        });
       }
-    } catch (error) {
-      console.error('OpenAI request error:', error);
-      return { success: false, error: 'OpenAI connection failed' };
-    }
-  }
-
-  if (images.length === 0) {
-    return { success: false, error: 'No images generated' };
+    }, request.signal);
+  } catch (error) {
+    console.error('Handler error:', error);
+    return jsonResponse({ error: `Server error: ${(error as Error).message}`, code: 'PROVIDER_DOWN' }, 500);
   }
-
-  return { success: true, images };
 }
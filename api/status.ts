@@ -0,0 +1,49 @@
+// Vercel Serverless Function for Provider Status
+// Reports which image providers are set up and how they've been doing;
+// GET /api/status?selfTest=1 also checks that each configured provider answers
+
+import type { ProviderStatus, StatusResponse } from '../src/types';
+import { describeServerLimits } from './_lib/budget';
+import { authorizeDevice } from './_lib/deviceAuth';
+import { jsonResponse } from './_lib/http';
+import { getProviderOrder } from './_lib/providers';
+import { getProviderHealth, isCircuitOpen } from './_lib/resilience';
+
+export const config = {
+  runtime: 'edge',
+  maxDuration: 30,
+};
+
+export default async function handler(request: Request) {
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed', code: 'BAD_REQUEST' }, 405);
+  }
+
+  const runSelfTest = new URL(request.url).searchParams.get('selfTest') === '1';
+  const env = process.env;
+
+  // Self-tests call the providers with our keys, so they need an unlocked device
+  if (runSelfTest) {
+    const auth = await authorizeDevice(request, env);
+    if (!auth.ok) {
+      return jsonResponse(auth.error, auth.status);
+    }
+  }
+
+  // Self-tests run side by side so the slowest provider sets the wait
+  const providers = await Promise.all(getProviderOrder(env).map(async (provider): Promise<ProviderStatus> => {
+    const configured = provider.isConfigured(env);
+    return {
+      id: provider.id,
+      label: provider.label,
+      requiredEnv: provider.requiredEnv,
+      configured,
+      circuitOpen: isCircuitOpen(provider.id),
+      ...getProviderHealth(provider.id),
+      selfTest: runSelfTest && configured ? await provider.selfTest(env, request.signal) : undefined,
+    };
+  }));
+
+  const body: StatusResponse = { checkedAt: Date.now(), providers, limits: describeServerLimits(env) };
+  return jsonResponse(body, 200, { 'Cache-Control': 'no-store' });
+}
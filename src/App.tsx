@@ -3,17 +3,21 @@
 // ============================================
 
 import { useState, useEffect, useCallback } from 'react';
-import { Page, Animal, Scene, Settings } from './types';
+import { Page, Animal, Scene, Settings, CustomWordLists } from './types';
 import {
   getAllAnimals,
   getAllScenes,
   getSettings,
+  getWordLists,
   saveAnimal,
   deleteAnimal as dbDeleteAnimal,
   saveScene,
   deleteScene as dbDeleteScene,
   saveSettings,
+  saveWordLists,
 } from './services/database';
+import { EMPTY_WORD_LISTS, getFilterOptions, setCustomWordLists } from './services/contentFilter';
+import { validateAnimal, validateScene, ValidationResult } from './services/validation';
 import { launchConfetti } from './utils/confetti';
 
 import { Header } from './components/Header';
@@ -27,10 +31,22 @@ import { SceneViewer } from './components/SceneViewer';
 import { ParentMode } from './components/ParentMode';
 
 const DEFAULT_SETTINGS: Settings = {
-  imageModel: 'dall-e-3',
+  imageModel: 'auto',
+  imageQuality: 'standard',
   imageCount: 4,
   kidSafeMode: true,
   extraGentleMode: false,
+  safetyProfile: 'kids',
+  limits: {
+    imagesPerDay: 0,
+    scenesPerDay: 0,
+    allowedHours: null,
+  },
+  reuseIdenticalPictures: true,
+  imageStorage: {
+    format: 'webp',
+    quality: 0.85,
+  },
 };
 
 function App() {
@@ -39,6 +55,7 @@ function App() {
   const [animals, setAnimals] = useState<Animal[]>([]);
   const [scenes, setScenes] = useState<Scene[]>([]);
   const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [wordLists, setWordLists] = useState<CustomWordLists>(EMPTY_WORD_LISTS);
   const [isLoading, setIsLoading] = useState(true);
   const [hasCreatedFirstAnimal, setHasCreatedFirstAnimal] = useState(false);
   const [hasCreatedFirstScene, setHasCreatedFirstScene] = useState(false);
@@ -46,14 +63,17 @@ function App() {
   useEffect(() => {
     async function loadData() {
       try {
-        const [loadedAnimals, loadedScenes, loadedSettings] = await Promise.all([
+        const [loadedAnimals, loadedScenes, loadedSettings, loadedWordLists] = await Promise.all([
           getAllAnimals(),
           getAllScenes(),
           getSettings(),
+          getWordLists(),
         ]);
         setAnimals(loadedAnimals);
         setScenes(loadedScenes);
         setSettings(loadedSettings);
+        setCustomWordLists(loadedWordLists);
+        setWordLists(loadedWordLists);
         if (loadedAnimals.length > 0) setHasCreatedFirstAnimal(true);
         if (loadedScenes.length > 0) setHasCreatedFirstScene(true);
       } catch (error) {
@@ -87,7 +107,11 @@ function App() {
     }
   }, [currentPage, navigateTo]);
 
-  const handleSaveAnimal = useCallback(async (animal: Animal) => {
+  // Every save goes through the validation layer so nothing unsafe is persisted
+  const handleSaveAnimal = useCallback(async (animal: Animal): Promise<ValidationResult> => {
+    const check = validateAnimal(animal, getFilterOptions(settings));
+    if (!check.isAllowed) return check;
+
     await saveAnimal(animal);
     setAnimals(prev => [animal, ...prev.filter(a => a.id !== animal.id)]);
     if (!hasCreatedFirstAnimal) {
@@ -95,14 +119,18 @@ function App() {
       launchConfetti();
     }
     navigateTo('animals');
-  }, [hasCreatedFirstAnimal, navigateTo]);
+    return check;
+  }, [settings, hasCreatedFirstAnimal, navigateTo]);
 
   const handleDeleteAnimal = useCallback(async (id: string) => {
     await dbDeleteAnimal(id);
     setAnimals(prev => prev.filter(a => a.id !== id));
   }, []);
 
-  const handleSaveScene = useCallback(async (scene: Scene) => {
+  const handleSaveScene = useCallback(async (scene: Scene): Promise<ValidationResult> => {
+    const check = validateScene(scene, getFilterOptions(settings));
+    if (!check.isAllowed) return check;
+
     await saveScene(scene);
     setScenes(prev => [scene, ...prev.filter(s => s.id !== scene.id)]);
     if (!hasCreatedFirstScene) {
@@ -110,12 +138,17 @@ function App() {
       launchConfetti();
     }
     navigateTo('storybook');
-  }, [hasCreatedFirstScene, navigateTo]);
+    return check;
+  }, [settings, hasCreatedFirstScene, navigateTo]);
+
+  const handleUpdateScene = useCallback(async (scene: Scene): Promise<ValidationResult> => {
+    const check = validateScene(scene, getFilterOptions(settings));
+    if (!check.isAllowed) return check;
 
-  const handleUpdateScene = useCallback(async (scene: Scene) => {
     await saveScene(scene);
     setScenes(prev => prev.map(s => s.id === scene.id ? scene : s));
-  }, []);
+    return check;
+  }, [settings]);
 
   const handleDeleteScene = useCallback(async (id: string) => {
     await dbDeleteScene(id);
@@ -132,6 +165,12 @@ function App() {
     setSettings(newSettings);
   }, []);
 
+  const handleUpdateWordLists = useCallback(async (newWordLists: CustomWordLists) => {
+    await saveWordLists(newWordLists);
+    setCustomWordLists(newWordLists);
+    setWordLists(newWordLists);
+  }, []);
+
   if (isLoading) {
     return (
       <div style={{
@@ -201,6 +240,7 @@ function App() {
 
       {currentPage === 'toy-animal' && (
         <ToyAnimal
+          settings={settings}
           onSave={handleSaveAnimal}
           onCancel={() => navigateTo('animals')}
         />
@@ -230,6 +270,7 @@ function App() {
         <SceneViewer
           scene={selectedScene}
           animals={animals}
+          settings={settings}
           onUpdate={handleUpdateScene}
           onClose={() => navigateTo('storybook')}
         />
@@ -238,7 +279,9 @@ function App() {
       {currentPage === 'parent-mode' && (
         <ParentMode
           settings={settings}
+          wordLists={wordLists}
           onUpdateSettings={handleUpdateSettings}
+          onUpdateWordLists={handleUpdateWordLists}
           onClose={() => navigateTo('home')}
         />
       )}
@@ -72,7 +72,8 @@ interface AnimalCardProps {
 }
 
 function AnimalCard({ animal, onSelect, onDelete }: AnimalCardProps) {
-  const imageUrl = animal.portraitDataUrl || animal.stickerDataUrl;
+  // Animals saved before thumbnails existed only have the full picture
+  const imageUrl = animal.thumbnailDataUrl || animal.portraitDataUrl || animal.stickerDataUrl;
   
   return (
     <div className={styles.card}>
@@ -0,0 +1,38 @@
+// ============================================
+// Countdown Component
+// Ticks down to zero once a second, e.g. "1:05:09" or "0:42"
+// ============================================
+
+import { useState, useEffect } from 'react';
+
+interface CountdownProps {
+  seconds: number;
+  onDone?: () => void;
+  className?: string;
+}
+
+function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+}
+
+export function Countdown({ seconds, onDone, className }: CountdownProps) {
+  const [endsAt] = useState(() => Date.now() + seconds * 1000);
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = endsAt - now;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (remaining <= 0) onDone?.();
+  }, [remaining, onDone]);
+
+  return <span className={className}>{formatCountdown(remaining)}</span>;
+}
@@ -0,0 +1,110 @@
+// ============================================
+// Diagnostics Panel
+// Parent Mode view of /api/status: which picture providers work and why not
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { StatusResponse } from '../types';
+import { diagnoseProvider, DiagnosisLevel, fetchStatus } from '../services/diagnostics';
+import styles from './ParentMode.module.css';
+
+const LEVEL_ICONS: Record<DiagnosisLevel, string> = {
+  ok: '✅',
+  warning: '⚠️',
+  problem: '❌',
+  off: '⚪',
+};
+
+function timeAgo(timestamp: number): string {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return new Date(timestamp).toLocaleString();
+}
+
+export function DiagnosticsPanel() {
+  const [status, setStatus] = useState<StatusResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+
+  const check = async (runSelfTest: boolean) => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      setStatus(await fetchStatus(runSelfTest));
+    } catch (err) {
+      console.error('Status check failed:', err);
+      setError((err as Error).message);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // The quick status (no self-test) is free, so load it straight away
+  useEffect(() => {
+    let cancelled = false;
+    fetchStatus(false)
+      .then((result) => {
+        if (!cancelled) setStatus(result);
+      })
+      .catch((err) => {
+        console.error('Status check failed:', err);
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const configuredCount = status?.providers.filter((provider) => provider.configured).length ?? 0;
+
+  return (
+    <section className={styles.section}>
+      <h3 className={styles.sectionTitle}>🩺 Picture Machine Diagnostics</h3>
+      <p className={styles.sectionDesc}>Which image providers are set up, and what's wrong if pictures aren't working.</p>
+
+      {error && <p className={styles.hint}>{error}</p>}
+
+      {status && configuredCount === 0 && (
+        <p className={styles.hint}>No provider is set up, so no pictures can be made. Add an API key in Vercel first.</p>
+      )}
+
+      {status && (
+        <ul className={styles.logList}>
+          {status.providers.map((provider) => {
+            const diagnosis = diagnoseProvider(provider);
+            return (
+              <li key={provider.id} className={styles.logEntry}>
+                <div className={styles.logMeta}>
+                  <span>{LEVEL_ICONS[diagnosis.level]} <strong>{provider.label}</strong></span>
+                  {provider.lastSuccessAt && <span>Last picture: {timeAgo(provider.lastSuccessAt)}</span>}
+                  {provider.lastFailureAt && <span>Last failure: {timeAgo(provider.lastFailureAt)}</span>}
+                </div>
+                <div className={styles.logText}>{diagnosis.explanation}</div>
+                {(provider.selfTest?.error || provider.lastError) && (
+                  <div className={styles.logMeta}>
+                    <span>{provider.selfTest?.error || provider.lastError?.error}</span>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <p className={styles.hint}>
+        Last picture and failure times come from the server instance that answered, so they reset when it restarts.
+      </p>
+
+      <div className={styles.dataButtons}>
+        <button className={styles.dataButton} onClick={() => check(false)} disabled={isChecking}>🔄 Refresh</button>
+        <button className={styles.dataButton} onClick={() => check(true)} disabled={isChecking}>
+          {isChecking ? '⏳ Checking...' : '🔌 Test Connections'}
+        </button>
+      </div>
+    </section>
+  );
+}
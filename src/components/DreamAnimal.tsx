@@ -3,20 +3,27 @@
 // Character builder for creating imagined animals
 // ============================================
 
-import { useState } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { Animal, Species, Personality, Settings } from '../types';
-import { validateAnimalName, checkContent } from '../services/contentFilter';
+import { getFilterOptions } from '../services/contentFilter';
+import { logRewriteAccepted, validateAnimal, ValidationResult } from '../services/validation';
 import { generateAnimalPortrait } from '../services/imageGeneration';
+import { suggestGentleRewrite } from '../services/gentleRewrite';
 import { VoiceInput } from './VoiceInput';
+import { RewriteSuggestion } from './RewriteSuggestion';
+import { MagicResting } from './MagicResting';
+import { Countdown } from './Countdown';
 import styles from './DreamAnimal.module.css';
 
 interface DreamAnimalProps {
   settings: Settings;
-  onSave: (animal: Animal) => void;
+  onSave: (animal: Animal) => Promise<ValidationResult>;
   onCancel: () => void;
 }
 
+type SuggestableField = 'markings' | 'specialThing';
+
 const SPECIES_OPTIONS: Species[] = [
   'Horse', 'Cow', 'Pig', 'Sheep', 'Chicken', 
   'Cat', 'Dog', 'Goat', 'Bunny', 'Duck', 'Other'
@@ -51,92 +58,108 @@ export function DreamAnimal({ settings, onSave, onCancel }: DreamAnimalProps) {
   const [personality, setPersonality] = useState<Personality>('Kind');
   const [specialThing, setSpecialThing] = useState('');
   const [portrait, setPortrait] = useState<string | null>(null);
+  const [portraitThumbnail, setPortraitThumbnail] = useState<string | null>(null);
+  // The portrait came from the cache because nothing changed since last time
+  const [fromCache, setFromCache] = useState(false);
   
   const [isGenerating, setIsGenerating] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<{ field: SuggestableField; text: string } | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  // Set when a daily limit or the allowed hours stop portrait making; saving still works
+  const [resting, setResting] = useState<{ message: string; retryAfter: number } | null>(null);
+  // Seconds to wait after the server said "too many requests"
+  const [cooldown, setCooldown] = useState<number | null>(null);
 
-  const handleGeneratePortrait = async () => {
-    // Validate name first
-    const nameCheck = validateAnimalName(name);
-    if (!nameCheck.isAllowed) {
-      setError(nameCheck.friendlyMessage || 'Please enter a valid name');
-      return;
+  // Leaving the page stops a portrait that's still being made
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleAwake = useCallback(() => setResting(null), []);
+  const handleCooldownDone = useCallback(() => setCooldown(null), []);
+
+  const buildAnimal = (id: string): Animal => ({
+    id,
+    createdAt: Date.now(),
+    mode: 'dream',
+    name: name.trim(),
+    species,
+    personality,
+    colors: {
+      primary: primaryColor,
+      secondary: secondaryColor,
+      markings: markings.trim() || undefined,
+    },
+    specialThing: specialThing.trim() || undefined,
+    portraitDataUrl: portrait || undefined,
+    thumbnailDataUrl: portraitThumbnail || undefined,
+  });
+
+  // Show the problem and, for markings or special thing, a gentler way to say it
+  const showCheckError = (check: ValidationResult) => {
+    setError(check.friendlyMessage || 'Let\'s use friendlier words!');
+    if (check.matchedTerm && check.field === 'animal.markings') {
+      const text = suggestGentleRewrite(markings, getFilterOptions(settings));
+      setSuggestion(text ? { field: 'markings', text } : null);
+    } else if (check.matchedTerm && check.field === 'animal.specialThing') {
+      const text = suggestGentleRewrite(specialThing, getFilterOptions(settings));
+      setSuggestion(text ? { field: 'specialThing', text } : null);
+    } else {
+      setSuggestion(null);
     }
+  };
 
-    // Check special thing for kid-safe content
-    if (specialThing) {
-      const specialCheck = checkContent(specialThing, settings.extraGentleMode);
-      if (!specialCheck.isAllowed) {
-        setError(specialCheck.friendlyMessage || 'Let\'s use friendlier words!');
-        return;
-      }
+  // fresh skips the cache and makes a new portrait
+  const handleGeneratePortrait = async (fresh = false) => {
+    const tempAnimal = buildAnimal('temp');
+    const check = validateAnimal(tempAnimal, getFilterOptions(settings));
+    if (!check.isAllowed) {
+      showCheckError(check);
+      return;
     }
 
     setIsGenerating(true);
     setError(null);
 
-    const tempAnimal: Animal = {
-      id: 'temp',
-      createdAt: Date.now(),
-      mode: 'dream',
-      name,
-      species,
-      personality,
-      colors: {
-        primary: primaryColor,
-        secondary: secondaryColor,
-        markings: markings || undefined,
-      },
-      specialThing: specialThing || undefined,
-    };
-
-    const result = await generateAnimalPortrait(tempAnimal, settings);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const result = await generateAnimalPortrait(tempAnimal, settings, { signal: controller.signal, fresh });
+    abortRef.current = null;
 
     if (result.success && result.images && result.images.length > 0) {
       setPortrait(result.images[0]);
-    } else {
+      setPortraitThumbnail(result.thumbnails?.[0] || null);
+      setFromCache(!!result.cached);
+    } else if (result.errorDetail?.code === 'BUDGET_EXHAUSTED') {
+      setResting({
+        message: result.error || '',
+        retryAfter: result.errorDetail.retryAfter || 0,
+      });
+    } else if (result.errorDetail?.code === 'RATE_LIMITED' && result.errorDetail.retryAfter) {
+      setCooldown(result.errorDetail.retryAfter);
+    } else if (!result.cancelled) {
       setError(result.error || 'Could not generate portrait');
     }
 
     setIsGenerating(false);
   };
 
-  const handleSave = () => {
-    // Validate
-    const nameCheck = validateAnimalName(name);
-    if (!nameCheck.isAllowed) {
-      setError(nameCheck.friendlyMessage || 'Please enter a valid name');
+  const handleSave = async () => {
+    const animal = buildAnimal(uuidv4());
+    const check = validateAnimal(animal, getFilterOptions(settings));
+    if (!check.isAllowed) {
+      showCheckError(check);
       return;
     }
 
-    if (specialThing) {
-      const specialCheck = checkContent(specialThing, settings.extraGentleMode);
-      if (!specialCheck.isAllowed) {
-        setError(specialCheck.friendlyMessage || 'Let\'s use friendlier words!');
-        return;
-      }
-    }
-
     setIsSaving(true);
 
-    const animal: Animal = {
-      id: uuidv4(),
-      createdAt: Date.now(),
-      mode: 'dream',
-      name: name.trim(),
-      species,
-      personality,
-      colors: {
-        primary: primaryColor,
-        secondary: secondaryColor,
-        markings: markings.trim() || undefined,
-      },
-      specialThing: specialThing.trim() || undefined,
-      portraitDataUrl: portrait || undefined,
-    };
-
-    onSave(animal);
+    const result = await onSave(animal);
+    if (!result.isAllowed) {
+      showCheckError(result);
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -152,6 +175,23 @@ export function DreamAnimal({ settings, onSave, onCancel }: DreamAnimalProps) {
           </div>
         )}
 
+        {suggestion && (
+          <RewriteSuggestion
+            suggestion={suggestion.text}
+            onUse={(text) => {
+              if (suggestion.field === 'markings') {
+                logRewriteAccepted('animal.markings', markings, text, getFilterOptions(settings));
+                setMarkings(text);
+              } else {
+                logRewriteAccepted('animal.specialThing', specialThing, text, getFilterOptions(settings));
+                setSpecialThing(text);
+              }
+              setSuggestion(null);
+              setError(null);
+            }}
+          />
+        )}
+
         {/* Name */}
         <div className={styles.field}>
           <label className={styles.label}>Name *</label>
@@ -242,7 +282,10 @@ export function DreamAnimal({ settings, onSave, onCancel }: DreamAnimalProps) {
               className={styles.input}
               placeholder="e.g., white star on forehead, spots, stripes"
               value={markings}
-              onChange={(e) => setMarkings(e.target.value)}
+              onChange={(e) => {
+                setMarkings(e.target.value);
+                setSuggestion(null);
+              }}
               maxLength={100}
             />
             <VoiceInput 
@@ -278,7 +321,10 @@ export function DreamAnimal({ settings, onSave, onCancel }: DreamAnimalProps) {
               className={styles.input}
               placeholder="e.g., loves apples, can run super fast"
               value={specialThing}
-              onChange={(e) => setSpecialThing(e.target.value)}
+              onChange={(e) => {
+                setSpecialThing(e.target.value);
+                setSuggestion(null);
+              }}
               maxLength={100}
             />
             <VoiceInput 
@@ -291,14 +337,21 @@ export function DreamAnimal({ settings, onSave, onCancel }: DreamAnimalProps) {
         {/* Portrait Preview */}
         <div className={styles.portraitSection}>
           <label className={styles.label}>Portrait</label>
-          {portrait ? (
+          {resting ? (
+            <MagicResting
+              message={resting.message}
+              retryAfter={resting.retryAfter}
+              onAwake={handleAwake}
+              onBack={handleAwake}
+            />
+          ) : portrait ? (
             <div className={styles.portraitPreview}>
               <img src={portrait} alt={`Portrait of ${name}`} className={styles.portraitImage} />
               <button
                 type="button"
                 className={styles.regenerateButton}
-                onClick={handleGeneratePortrait}
-                disabled={isGenerating || !name}
+                onClick={() => handleGeneratePortrait(true)}
+                disabled={isGenerating || !name || !!cooldown}
               >
                 {isGenerating ? '✨ Creating...' : '🔄 New Portrait'}
               </button>
@@ -307,8 +360,8 @@ export function DreamAnimal({ settings, onSave, onCancel }: DreamAnimalProps) {
             <button
               type="button"
               className={styles.generateButton}
-              onClick={handleGeneratePortrait}
-              disabled={isGenerating || !name}
+              onClick={() => handleGeneratePortrait()}
+              disabled={isGenerating || !name || !!cooldown}
             >
               {isGenerating ? (
                 <>
@@ -323,8 +376,24 @@ export function DreamAnimal({ settings, onSave, onCancel }: DreamAnimalProps) {
               )}
             </button>
           )}
+          {cooldown && (
+            <p className={styles.hint}>
+              ⏰ Whoa, slow down! You can make another portrait in <Countdown seconds={cooldown} onDone={handleCooldownDone} />
+            </p>
+          )}
+          {isGenerating && (
+            <button
+              type="button"
+              className={styles.stopButton}
+              onClick={() => abortRef.current?.abort()}
+            >
+              ✋ Stop
+            </button>
+          )}
           <p className={styles.hint}>
-            Portraits are optional! You can add one later.
+            {portrait && fromCache
+              ? 'Same portrait as last time! Tap "New Portrait" for a different one.'
+              : 'Portraits are optional! You can add one later.'}
           </p>
         </div>
 
@@ -0,0 +1,75 @@
+// ============================================
+// Error Log Panel
+// Parent Mode list of the last picture-making problems, with the technical detail
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { ApiErrorCode, ErrorLogEntry } from '../types';
+import { clearErrorLog, getErrorLog } from '../services/database';
+import styles from './ParentMode.module.css';
+
+const CODE_LABELS: Record<ApiErrorCode, string> = {
+  RATE_LIMITED: '⏰ Too many requests',
+  CONTENT_REJECTED: '🚫 Rejected by the provider',
+  AUTH: '🔑 API key problem',
+  QUOTA: '⛽ Out of credit',
+  TIMEOUT: '⏳ Timed out',
+  PROVIDER_DOWN: '😴 Provider unavailable',
+  BAD_REQUEST: '❓ Bad request',
+  BUDGET_EXHAUSTED: '🌙 Limit reached',
+};
+
+export function ErrorLogPanel() {
+  const [entries, setEntries] = useState<ErrorLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    getErrorLog()
+      .then((log) => {
+        if (!cancelled) setEntries(log);
+      })
+      .catch((error) => console.error('Failed to load error log:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleClear = async () => {
+    await clearErrorLog();
+    setEntries([]);
+  };
+
+  return (
+    <section className={styles.section}>
+      <h3 className={styles.sectionTitle}>⚠️ Recent Problems</h3>
+      <p className={styles.sectionDesc}>What really went wrong when a picture couldn't be made. Kids only see a friendly message.</p>
+
+      {isLoading ? (
+        <p className={styles.hint}>Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className={styles.hint}>No problems so far. 🎉</p>
+      ) : (
+        <ul className={styles.logList}>
+          {entries.map((entry) => (
+            <li key={entry.id} className={styles.logEntry}>
+              <div className={styles.logMeta}>
+                <span>{CODE_LABELS[entry.code] || entry.code}</span>
+                {entry.provider && <span>{entry.provider}</span>}
+                <span>{new Date(entry.timestamp).toLocaleString()}</span>
+              </div>
+              <div className={styles.logText}>{entry.detail}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className={styles.dataButtons}>
+        <button className={styles.dataButton} onClick={handleClear} disabled={entries.length === 0}>🗑️ Clear Problems</button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,158 @@
+// ============================================
+// Family Access Panel
+// Unlock this device with the family passcode, and list or revoke unlocked devices
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { DevicesResponse } from '../types';
+import { fetchDevices, forgetDeviceToken, revokeDevice, unlockDevice } from '../services/device';
+import styles from './ParentMode.module.css';
+
+// A sensible default name, e.g. "iPad"
+function guessDeviceName(): string {
+  const agent = navigator.userAgent;
+  if (/iPad/.test(agent)) return 'iPad';
+  if (/iPhone/.test(agent)) return 'iPhone';
+  if (/Android/.test(agent)) return 'Android';
+  if (/Mac/.test(agent)) return 'Mac';
+  if (/Windows/.test(agent)) return 'Windows PC';
+  return 'This device';
+}
+
+export function FamilyAccessPanel() {
+  const [status, setStatus] = useState<DevicesResponse | null>(null);
+  // Set when this device isn't unlocked (or the server couldn't be reached)
+  const [lockedReason, setLockedReason] = useState<string | null>(null);
+  const [passcode, setPasscode] = useState('');
+  const [deviceName, setDeviceName] = useState(guessDeviceName);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDevices()
+      .then((result) => {
+        if (!cancelled) setStatus(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setLockedReason((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsBusy(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleUnlock = async () => {
+    if (!passcode) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await unlockDevice(passcode, deviceName.trim());
+      setPasscode('');
+      setStatus(await fetchDevices());
+      setLockedReason(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async (id: string, name: string) => {
+    const isThisDevice = id === status?.currentDeviceId;
+    const question = isThisDevice
+      ? 'Lock this device? Pictures won\'t work here until the passcode is entered again.'
+      : `Revoke "${name}"? It won't be able to make pictures until it's unlocked again.`;
+    if (!confirm(question)) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = await revokeDevice(id);
+      if (isThisDevice) {
+        forgetDeviceToken();
+        setStatus(null);
+        setLockedReason('This device has been locked.');
+      } else {
+        setStatus(result);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <section className={styles.section}>
+      <h3 className={styles.sectionTitle}>🔑 Family Access</h3>
+      <p className={styles.sectionDesc}>
+        With a family passcode set on Vercel, only devices unlocked here can make pictures with your API key.
+      </p>
+
+      {error && <p className={styles.hint}>⚠️ {error}</p>}
+
+      {status && !status.enabled && (
+        <p className={styles.hint}>
+          Family access is off, so anyone with the app's address can make pictures. Set FAMILY_PASSCODE and DEVICE_TOKEN_SECRET in Vercel to turn it on.
+        </p>
+      )}
+
+      {lockedReason && (
+        <>
+          <p className={styles.hint}>{lockedReason}</p>
+          <div className={styles.termInputRow}>
+            <label className={styles.logDateLabel}>
+              Device name
+              <input
+                type="text"
+                className={styles.input}
+                value={deviceName}
+                onChange={(e) => setDeviceName(e.target.value)}
+                maxLength={40}
+              />
+            </label>
+            <label className={styles.logDateLabel}>
+              Family passcode
+              <input
+                type="password"
+                className={styles.input}
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+              />
+            </label>
+          </div>
+          <div className={styles.dataButtons}>
+            <button className={styles.dataButton} onClick={handleUnlock} disabled={isBusy || !passcode}>
+              {isBusy ? '⏳ Unlocking...' : '🔓 Unlock This Device'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {status?.enabled && (
+        <ul className={styles.logList}>
+          {status.devices.map((device) => (
+            <li key={device.id} className={styles.logEntry}>
+              <div className={styles.logMeta}>
+                <span>
+                  <strong>{device.name}</strong>
+                  {device.id === status.currentDeviceId && ' (this device)'}
+                </span>
+                <span>Unlocked {new Date(device.createdAt).toLocaleDateString()}</span>
+                {device.lastSeenAt && <span>Last used {new Date(device.lastSeenAt).toLocaleString()}</span>}
+                <button className={styles.logAllow} onClick={() => handleRevoke(device.id, device.name)} disabled={isBusy}>
+                  🚫 Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,139 @@
+// ============================================
+// Filter Log Panel
+// Parent Mode viewer for what the content filter blocked or softened
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { CustomWordLists, FilterLogEntry, FilterOutcome, TextField } from '../types';
+import { clearFilterLog, getFilterLog } from '../services/database';
+import styles from './ParentMode.module.css';
+
+interface FilterLogPanelProps {
+  wordLists: CustomWordLists;
+  onUpdateWordLists: (wordLists: CustomWordLists) => void;
+}
+
+const FIELD_LABELS: Record<TextField, string> = {
+  'animal.name': 'Animal name',
+  'animal.primaryColor': 'Primary color',
+  'animal.secondaryColor': 'Secondary color',
+  'animal.markings': 'Markings',
+  'animal.specialThing': 'Special thing',
+  'scene.title': 'Scene title',
+  'scene.userDescription': 'Scene description',
+  'scene.caption': 'Caption',
+};
+
+const OUTCOME_LABELS: Record<FilterOutcome, string> = {
+  blocked: '🚫 Blocked',
+  softened: '💛 Softened',
+  rewritten: '✨ Rewritten',
+};
+
+// "2026-10-19" -> start/end of that local day
+function dayStart(date: string): number {
+  return date ? new Date(`${date}T00:00:00`).getTime() : 0;
+}
+
+function dayEnd(date: string): number {
+  return date ? new Date(`${date}T23:59:59.999`).getTime() : Date.now();
+}
+
+export function FilterLogPanel({ wordLists, onUpdateWordLists }: FilterLogPanelProps) {
+  const [entries, setEntries] = useState<FilterLogEntry[]>([]);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    getFilterLog(dayStart(fromDate), dayEnd(toDate))
+      .then((log) => {
+        if (!cancelled) setEntries(log);
+      })
+      .catch((error) => console.error('Failed to load filter log:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fromDate, toDate]);
+
+  const handleClear = async () => {
+    if (!confirm('Clear the whole filter log? This cannot be undone.')) return;
+    await clearFilterLog();
+    setEntries([]);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `filter-log-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Quick way to stop a word being caught again
+  const handleAllow = (term: string) => {
+    if (wordLists.allowed.includes(term)) return;
+    onUpdateWordLists({ ...wordLists, allowed: [...wordLists.allowed, term] });
+  };
+
+  return (
+    <section className={styles.section}>
+      <h3 className={styles.sectionTitle}>🔍 Filter Log</h3>
+      <p className={styles.sectionDesc}>What the filter caught on this device. Use it to tune the word lists above.</p>
+
+      <div className={styles.termInputRow}>
+        <label className={styles.logDateLabel}>
+          From
+          <input type="date" className={styles.input} value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+        </label>
+        <label className={styles.logDateLabel}>
+          To
+          <input type="date" className={styles.input} value={toDate} onChange={(e) => setToDate(e.target.value)} />
+        </label>
+      </div>
+
+      {isLoading ? (
+        <p className={styles.hint}>Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className={styles.hint}>Nothing caught yet. 🌈</p>
+      ) : (
+        <ul className={styles.logList}>
+          {entries.map((entry) => (
+            <li key={entry.id} className={styles.logEntry}>
+              <div className={styles.logMeta}>
+                <span>{OUTCOME_LABELS[entry.outcome]}</span>
+                <span>{FIELD_LABELS[entry.field] || entry.field}</span>
+                <span>{new Date(entry.timestamp).toLocaleString()}</span>
+              </div>
+              <div className={styles.logText}>"{entry.originalText}"</div>
+              {entry.replacement && <div className={styles.logText}>→ "{entry.replacement}"</div>}
+              {entry.matchedRule && (
+                <div className={styles.logMeta}>
+                  <span>Matched: <strong>{entry.matchedRule}</strong></span>
+                  {!wordLists.allowed.includes(entry.matchedRule) && (
+                    <button className={styles.logAllow} onClick={() => handleAllow(entry.matchedRule!)}>
+                      ✅ Always allow
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className={styles.dataButtons}>
+        <button className={styles.dataButton} onClick={handleExport} disabled={entries.length === 0}>📤 Export Log</button>
+        <button className={styles.dataButton} onClick={handleClear} disabled={entries.length === 0}>🗑️ Clear Log</button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,31 @@
+// ============================================
+// Magic Resting Component
+// Shown when a daily limit or the allowed hours stop picture making
+// ============================================
+
+import { Countdown } from './Countdown';
+import styles from './MagicResting.module.css';
+
+interface MagicRestingProps {
+  message: string;
+  // Seconds until pictures can be made again
+  retryAfter: number;
+  onAwake: () => void;
+  onBack: () => void;
+}
+
+export function MagicResting({ message, retryAfter, onAwake, onBack }: MagicRestingProps) {
+  return (
+    <div className={styles.resting}>
+      <div className={styles.moon}>🌙</div>
+      <h2 className={styles.title}>Shhh... the magic is resting</h2>
+      <p className={styles.message}>{message}</p>
+      <p className={styles.countdownLabel}>Magic wakes up in</p>
+      <Countdown seconds={retryAfter} onDone={onAwake} className={styles.countdown} />
+      <p className={styles.hint}>You can still visit your animals and read your storybook! 📖</p>
+      <button type="button" className={styles.backButton} onClick={onBack}>
+        ← Back
+      </button>
+    </div>
+  );
+}
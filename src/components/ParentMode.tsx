@@ -3,20 +3,89 @@
 // Settings panel for data management (API key handled by Vercel)
 // ============================================
 
-import { useState, useRef } from 'react';
-import { Settings } from '../types';
+import { useState, useRef, useEffect } from 'react';
+import {
+  AvailableProvider,
+  CustomWordLists,
+  GenerationLimits,
+  ImageQuality,
+  ImageStorageFormat,
+  ImageStorageSettings,
+  SafetyProfileId,
+  ServerLimits,
+  Settings,
+} from '../types';
 import { exportAllData, importAllData, clearAllData, ExportData } from '../services/database';
+import { checkContent, buildKidSafePromptSuffix, SAFETY_PROFILES } from '../services/contentFilter';
+import { fetchAvailableProviders } from '../services/imageGeneration';
+import { fetchStatus } from '../services/diagnostics';
+import { WordListsPanel } from './WordListsPanel';
+import { FilterLogPanel } from './FilterLogPanel';
+import { ErrorLogPanel } from './ErrorLogPanel';
+import { DiagnosticsPanel } from './DiagnosticsPanel';
+import { UsageDashboard } from './UsageDashboard';
+import { FamilyAccessPanel } from './FamilyAccessPanel';
 import styles from './ParentMode.module.css';
 
+const QUALITY_OPTIONS: Record<ImageQuality, { label: string; description: string }> = {
+  sketch: { label: '✏️ Quick sketch', description: 'Faster and cheaper, a little rougher' },
+  standard: { label: '🖼️ Standard', description: 'A good balance for everyday stories' },
+  best: { label: '🌟 Best quality', description: 'Most detail; slower and costs more' },
+};
+
+const STORAGE_FORMATS: Record<ImageStorageFormat, string> = {
+  webp: 'WebP (smallest)',
+  jpeg: 'JPEG (works everywhere)',
+  original: 'Original PNG (largest)',
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// 0 -> "12 AM", 13 -> "1 PM"
+function formatHour(hour: number): string {
+  return `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+// undefined when the server couldn't be asked
+function describeServerLimits(serverLimits: ServerLimits | null | undefined): string {
+  if (serverLimits === undefined) {
+    return 'Couldn\'t check the server\'s own limits. They are set with DAILY_IMAGE_LIMIT, DAILY_SCENE_LIMIT and ALLOWED_HOURS in Vercel.';
+  }
+  if (!serverLimits) {
+    return 'The server has no limits of its own. To enforce limits there too, set DAILY_IMAGE_LIMIT, DAILY_SCENE_LIMIT and ALLOWED_HOURS in Vercel.';
+  }
+  const { imagesPerDay, scenesPerDay, allowedHours, timeZone } = serverLimits;
+  const rules = [
+    imagesPerDay ? `${imagesPerDay} pictures a day` : '',
+    scenesPerDay ? `${scenesPerDay} scenes a day` : '',
+    allowedHours ? `pictures from ${formatHour(allowedHours.start)} until ${formatHour(allowedHours.end)} (${timeZone})` : '',
+  ].filter(Boolean);
+  return `The server also enforces its own limits, whatever is saved here: ${rules.join(', ')}. Change those with DAILY_IMAGE_LIMIT, DAILY_SCENE_LIMIT and ALLOWED_HOURS in Vercel.`;
+}
+
 interface ParentModeProps {
   settings: Settings;
+  wordLists: CustomWordLists;
   onUpdateSettings: (settings: Settings) => void;
+  onUpdateWordLists: (wordLists: CustomWordLists) => void;
   onClose: () => void;
 }
 
-export function ParentMode({ settings, onUpdateSettings, onClose }: ParentModeProps) {
+export function ParentMode({ settings, wordLists, onUpdateSettings, onUpdateWordLists, onClose }: ParentModeProps) {
   const [imageCount, setImageCount] = useState(settings.imageCount);
+  const [imageModel, setImageModel] = useState(settings.imageModel);
+  const [imageQuality, setImageQuality] = useState<ImageQuality>(settings.imageQuality);
+  // null until loaded, or when the server can't be reached
+  const [availableProviders, setAvailableProviders] = useState<AvailableProvider[] | null>(null);
+  // undefined until loaded, or when the server can't be reached; null when it sets no limits
+  const [serverLimits, setServerLimits] = useState<ServerLimits | null | undefined>(undefined);
   const [extraGentleMode, setExtraGentleMode] = useState(settings.extraGentleMode);
+  const [kidSafeMode, setKidSafeMode] = useState(settings.kidSafeMode);
+  const [safetyProfile, setSafetyProfile] = useState<SafetyProfileId>(settings.safetyProfile);
+  const [previewText, setPreviewText] = useState('');
+  const [limits, setLimits] = useState<GenerationLimits>(settings.limits);
+  const [reuseIdenticalPictures, setReuseIdenticalPictures] = useState(settings.reuseIdenticalPictures);
+  const [imageStorage, setImageStorage] = useState<ImageStorageSettings>(settings.imageStorage);
   
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [isExporting, setIsExporting] = useState(false);
@@ -24,17 +93,48 @@ export function ParentMode({ settings, onUpdateSettings, onClose }: ParentModePr
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    let cancelled = false;
+    fetchAvailableProviders().then((providers) => {
+      if (!cancelled) setAvailableProviders(providers);
+    });
+    fetchStatus(false)
+      .then((status) => {
+        if (!cancelled) setServerLimits(status.limits);
+      })
+      .catch((err) => console.error('Status check failed:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // The provider pictures would come from first, for the cost hint
+  const firstProvider = availableProviders?.find((provider) => provider.id === imageModel) || availableProviders?.[0];
+  const savedModelMissing = imageModel !== 'auto' && !!availableProviders && !availableProviders.some((provider) => provider.id === imageModel);
+
   const handleSaveSettings = () => {
     const newSettings: Settings = {
       ...settings,
       imageCount,
+      imageModel,
+      imageQuality,
       extraGentleMode,
+      kidSafeMode,
+      safetyProfile,
+      limits,
+      reuseIdenticalPictures,
+      imageStorage,
     };
     onUpdateSettings(newSettings);
     setMessage({ type: 'success', text: 'Settings saved!' });
     setTimeout(() => setMessage(null), 3000);
   };
 
+  // How the sample text would be treated with the (unsaved) choices above
+  const previewResult = previewText.trim()
+    ? checkContent(previewText, { profile: safetyProfile, extraGentleMode, kidSafeMode })
+    : null;
+
   const handleExport = async () => {
     setIsExporting(true);
     try {
@@ -67,8 +167,11 @@ export function ParentMode({ settings, onUpdateSettings, onClose }: ParentModePr
       const text = await file.text();
       const data: ExportData = JSON.parse(text);
       if (!data.animals || !data.scenes || !data.settings) throw new Error('Invalid file format');
-      await importAllData(data);
-      setMessage({ type: 'success', text: 'Import complete! Refresh to see changes.' });
+      const { skippedAnimals, skippedScenes } = await importAllData(data);
+      const skipped = [...skippedAnimals, ...skippedScenes];
+      setMessage(skipped.length > 0
+        ? { type: 'error', text: `Imported, but left out what the word filter wouldn't allow: ${skipped.join(', ')}. Refresh to see changes.` }
+        : { type: 'success', text: 'Import complete! Refresh to see changes.' });
     } catch (error) {
       console.error('Import error:', error);
       setMessage({ type: 'error', text: 'Import failed - check file format' });
@@ -111,19 +214,226 @@ export function ParentMode({ settings, onUpdateSettings, onClose }: ParentModePr
             </div>
             <small className={styles.hint}>More images = more choices!</small>
           </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Picture maker</label>
+            <select className={styles.select} value={imageModel} onChange={(e) => setImageModel(e.target.value)}>
+              <option value="auto">Automatic (best one for each picture)</option>
+              {availableProviders?.map((provider) => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+              {savedModelMissing && <option value={imageModel}>{imageModel} (not set up)</option>}
+            </select>
+            <small className={styles.hint}>
+              {availableProviders
+                ? 'Only picture makers with an API key on the server are listed. If the chosen one can\'t make a picture, the others are tried.'
+                : 'Couldn\'t load the list of picture makers from the server.'}
+            </small>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Picture quality</label>
+            <div className={styles.profileOptions}>
+              {(Object.keys(QUALITY_OPTIONS) as ImageQuality[]).map((quality) => (
+                <button
+                  key={quality}
+                  className={`${styles.profileButton} ${imageQuality === quality ? styles.profileActive : ''}`}
+                  onClick={() => setImageQuality(quality)}
+                >
+                  <strong>{QUALITY_OPTIONS[quality].label}</strong>
+                  <small>{QUALITY_OPTIONS[quality].description}</small>
+                </button>
+              ))}
+            </div>
+            {firstProvider && (
+              <small className={styles.hint}>
+                About ${firstProvider.costPerImage[imageQuality].toFixed(2)} per picture with {firstProvider.label}.
+              </small>
+            )}
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.toggle}>
+              <input type="checkbox" checked={reuseIdenticalPictures} onChange={(e) => setReuseIdenticalPictures(e.target.checked)} />
+              <span className={styles.toggleSlider}></span>
+              <span className={styles.toggleLabel}>Reuse pictures<small>Asking for exactly the same scene again shows the same pictures for free. "Make New Ones" always makes new ones.</small></span>
+            </label>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Save new pictures as</label>
+            <select
+              className={styles.select}
+              value={imageStorage.format}
+              onChange={(e) => setImageStorage({ ...imageStorage, format: e.target.value as ImageStorageFormat })}
+            >
+              {(Object.keys(STORAGE_FORMATS) as ImageStorageFormat[]).map((format) => (
+                <option key={format} value={format}>{STORAGE_FORMATS[format]}</option>
+              ))}
+            </select>
+            {imageStorage.format !== 'original' && (
+              <label className={styles.logDateLabel}>
+                Quality {Math.round(imageStorage.quality * 100)}%
+                <input
+                  type="range"
+                  className={styles.range}
+                  min={0.5}
+                  max={1}
+                  step={0.05}
+                  value={imageStorage.quality}
+                  onChange={(e) => setImageStorage({ ...imageStorage, quality: Number(e.target.value) })}
+                />
+              </label>
+            )}
+            <small className={styles.hint}>WebP pictures take a fraction of the space of the original PNGs. Pictures you already saved stay as they are.</small>
+          </div>
         </section>
 
         <section className={styles.section}>
           <h3 className={styles.sectionTitle}>🛡️ Safety</h3>
-          <label className={styles.toggle}>
-            <input type="checkbox" checked={extraGentleMode} onChange={(e) => setExtraGentleMode(e.target.checked)} />
-            <span className={styles.toggleSlider}></span>
-            <span className={styles.toggleLabel}>Extra Gentle Mode<small>Stricter content filtering</small></span>
-          </label>
+          <div className={styles.field}>
+            <label className={styles.toggle}>
+              <input type="checkbox" checked={kidSafeMode} onChange={(e) => setKidSafeMode(e.target.checked)} />
+              <span className={styles.toggleSlider}></span>
+              <span className={styles.toggleLabel}>Kid-Safe Mode<small>Word filter and gentle picture style (your own blocked words always apply)</small></span>
+            </label>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Age band</label>
+            <div className={styles.profileOptions}>
+              {Object.values(SAFETY_PROFILES).map((profile) => (
+                <button
+                  key={profile.id}
+                  className={`${styles.profileButton} ${safetyProfile === profile.id ? styles.profileActive : ''}`}
+                  onClick={() => setSafetyProfile(profile.id)}
+                  disabled={!kidSafeMode}
+                >
+                  <strong>{profile.label}</strong>
+                  <small>{profile.description}</small>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.toggle}>
+              <input type="checkbox" checked={extraGentleMode} onChange={(e) => setExtraGentleMode(e.target.checked)} />
+              <span className={styles.toggleSlider}></span>
+              <span className={styles.toggleLabel}>Extra Gentle Mode<small>Suggests friendlier words and reassures about stormy or dark scenes</small></span>
+            </label>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Try a sample description</label>
+            <input
+              type="text"
+              className={styles.input}
+              placeholder="e.g., the horses race through a stormy field"
+              value={previewText}
+              onChange={(e) => setPreviewText(e.target.value)}
+            />
+            {previewResult && (
+              <div className={`${styles.previewResult} ${previewResult.isAllowed ? styles.success : styles.error}`}>
+                <strong>
+                  {previewResult.isAllowed
+                    ? previewResult.friendlyMessage ? '🌟 Allowed with a note' : '✅ Allowed'
+                    : `🚫 Blocked${previewResult.matchedTerm ? ` ("${previewResult.matchedTerm}")` : ''}`}
+                </strong>
+                {previewResult.friendlyMessage && <p>Your child sees: {previewResult.friendlyMessage}</p>}
+              </div>
+            )}
+            <small className={styles.hint}>
+              {kidSafeMode
+                ? <>Picture style added to every prompt:<span className={styles.previewSuffix}>{buildKidSafePromptSuffix(safetyProfile).trim()}</span></>
+                : 'No picture style requirements are added while Kid-Safe Mode is off.'}
+            </small>
+          </div>
+        </section>
+
+        <section className={styles.section}>
+          <h3 className={styles.sectionTitle}>⏰ Limits</h3>
+          <p className={styles.sectionDesc}>
+            When a limit is reached, Rylan sees a "the magic needs to rest" screen with a countdown. <small>(0 means no limit.)</small>
+          </p>
+          <div className={styles.termInputRow}>
+            <label className={styles.logDateLabel}>
+              Pictures per day
+              <input
+                type="number"
+                min={0}
+                className={styles.input}
+                value={limits.imagesPerDay}
+                onChange={(e) => setLimits({ ...limits, imagesPerDay: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </label>
+            <label className={styles.logDateLabel}>
+              Scenes per day
+              <input
+                type="number"
+                min={0}
+                className={styles.input}
+                value={limits.scenesPerDay}
+                onChange={(e) => setLimits({ ...limits, scenesPerDay: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </label>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={!!limits.allowedHours}
+                onChange={(e) => setLimits({ ...limits, allowedHours: e.target.checked ? { start: 8, end: 19 } : null })}
+              />
+              <span className={styles.toggleSlider}></span>
+              <span className={styles.toggleLabel}>Picture hours<small>Only make pictures between certain times of day</small></span>
+            </label>
+          </div>
+
+          {limits.allowedHours && (
+            <div className={styles.termInputRow}>
+              <label className={styles.logDateLabel}>
+                From
+                <select
+                  className={styles.select}
+                  value={limits.allowedHours.start}
+                  onChange={(e) => setLimits({ ...limits, allowedHours: { ...limits.allowedHours!, start: Number(e.target.value) } })}
+                >
+                  {HOURS.map((hour) => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+                </select>
+              </label>
+              <label className={styles.logDateLabel}>
+                Until
+                <select
+                  className={styles.select}
+                  value={limits.allowedHours.end}
+                  onChange={(e) => setLimits({ ...limits, allowedHours: { ...limits.allowedHours!, end: Number(e.target.value) } })}
+                >
+                  {HOURS.map((hour) => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+                </select>
+              </label>
+            </div>
+          )}
+          <small className={styles.hint}>
+            These limits are kept on this device. {describeServerLimits(serverLimits)}
+          </small>
         </section>
 
         <button className={styles.saveButton} onClick={handleSaveSettings}>💾 Save Settings</button>
 
+        <WordListsPanel wordLists={wordLists} onChange={onUpdateWordLists} />
+
+        <FilterLogPanel wordLists={wordLists} onUpdateWordLists={onUpdateWordLists} />
+
+        <ErrorLogPanel />
+
+        <FamilyAccessPanel />
+
+        <DiagnosticsPanel />
+
+        <UsageDashboard />
+
         <section className={styles.section}>
           <h3 className={styles.sectionTitle}>📦 Data Management</h3>
           <div className={styles.dataButtons}>
@@ -0,0 +1,23 @@
+// ============================================
+// Rewrite Suggestion Component
+// One-tap "use this instead" for a gentler version of blocked text
+// ============================================
+
+import styles from './RewriteSuggestion.module.css';
+
+interface RewriteSuggestionProps {
+  suggestion: string;
+  onUse: (text: string) => void;
+}
+
+export function RewriteSuggestion({ suggestion, onUse }: RewriteSuggestionProps) {
+  return (
+    <div className={styles.suggestion}>
+      <p className={styles.label}>✨ How about this?</p>
+      <p className={styles.text}>"{suggestion}"</p>
+      <button type="button" className={styles.useButton} onClick={() => onUse(suggestion)}>
+        👍 Use this instead
+      </button>
+    </div>
+  );
+}
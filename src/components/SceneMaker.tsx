@@ -3,18 +3,25 @@
 // The magic scene generation experience
 // ============================================
 
-import { useState } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Animal, Scene, Location, Settings } from '../types';
-import { validateSceneDescription } from '../services/contentFilter';
-import { generateSceneImages } from '../services/imageGeneration';
+import { Animal, Scene, Location, Settings, ImageAspect } from '../types';
+import { getFilterOptions } from '../services/contentFilter';
+import { logRewriteAccepted, validateField, ValidationResult } from '../services/validation';
+import { checkBudget } from '../services/budget';
+import { friendlyError, generateSceneImages } from '../services/imageGeneration';
+import { suggestGentleRewrite } from '../services/gentleRewrite';
+import { loadImage } from '../utils/imageProcessing';
 import { VoiceInput } from './VoiceInput';
+import { RewriteSuggestion } from './RewriteSuggestion';
+import { MagicResting } from './MagicResting';
+import { Countdown } from './Countdown';
 import styles from './SceneMaker.module.css';
 
 interface SceneMakerProps {
   animals: Animal[];
   settings: Settings;
-  onSave: (scene: Scene) => void;
+  onSave: (scene: Scene) => Promise<ValidationResult>;
   onCancel: () => void;
   onNavigateToAnimals: () => void;
 }
@@ -34,6 +41,14 @@ const LOCATIONS: { value: Location; emoji: string; label: string }[] = [
   { value: 'Cozy Farm', emoji: '🌾', label: 'Cozy Farm' },
 ];
 
+// Shapes for storybook pages; ratio is what the placeholders show while pictures arrive
+const ASPECTS: { value: ImageAspect; label: string; ratio: string }[] = [
+  { value: 'square', label: 'Square', ratio: '1' },
+  { value: 'landscape', label: 'Wide Page', ratio: '3 / 2' },
+  { value: 'portrait', label: 'Tall Page', ratio: '2 / 3' },
+  { value: 'banner', label: 'Banner', ratio: '16 / 9' },
+];
+
 export function SceneMaker({ 
   animals, 
   settings, 
@@ -45,14 +60,45 @@ export function SceneMaker({
   const [selectedAnimalIds, setSelectedAnimalIds] = useState<string[]>([]);
   const [location, setLocation] = useState<Location>('Meadow');
   const [description, setDescription] = useState('');
+  const [aspect, setAspect] = useState<ImageAspect>('square');
   const [title, setTitle] = useState('');
   
   const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+  const [generatedThumbnails, setGeneratedThumbnails] = useState<string[]>([]);
   const [promptUsed, setPromptUsed] = useState('');
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
+  // The pictures came from the cache because nothing changed since last time
+  const [fromCache, setFromCache] = useState(false);
   
   const [error, setError] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set when a daily limit or the allowed hours stop picture making
+  const [resting, setResting] = useState<{ message: string; retryAfter: number } | null>(null);
+  // Seconds to wait after the server said "too many requests"
+  const [cooldown, setCooldown] = useState<number | null>(null);
+
+  // Leaving the page stops any generation still running
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Show the resting screen straight away rather than after the child has set up a scene
+  useEffect(() => {
+    let cancelled = false;
+    checkBudget(settings.limits, 'scene', 1)
+      .then(({ exhausted }) => {
+        if (exhausted && !cancelled) {
+          setResting({ message: friendlyError(exhausted), retryAfter: exhausted.retryAfter || 0 });
+        }
+      })
+      .catch((err) => console.error('Budget check failed:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.limits]);
+
+  const handleAwake = useCallback(() => setResting(null), []);
+  const handleCooldownDone = useCallback(() => setCooldown(null), []);
 
   // Get selected animals
   const selectedAnimals = animals.filter(a => selectedAnimalIds.includes(a.id));
@@ -66,30 +112,58 @@ export function SceneMaker({
     }
   };
 
-  // Generate images
-  const handleGenerate = async () => {
+  // Generate images; fresh skips the cache and makes new ones
+  const handleGenerate = async (fresh = false) => {
     // Validate description
-    const descCheck = validateSceneDescription(description);
+    const descCheck = validateField('scene.userDescription', description, getFilterOptions(settings));
     if (!descCheck.isAllowed) {
       setError(descCheck.friendlyMessage || 'Please describe what\'s happening');
+      setSuggestion(descCheck.matchedTerm ? suggestGentleRewrite(description, getFilterOptions(settings)) : null);
       return;
     }
 
     setError(null);
+    setSuggestion(null);
+    setGeneratedImages([]);
+    setSelectedImageIndex(null);
     setIsGenerating(true);
     setStep('generating');
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     const result = await generateSceneImages(
       selectedAnimals,
       location,
       description,
-      settings
+      settings,
+      {
+        onImage: (image) => setGeneratedImages(prev => [...prev, image]),
+        signal: controller.signal,
+        fresh,
+        aspect,
+      }
     );
+    abortRef.current = null;
 
     if (result.success && result.images && result.images.length > 0) {
+      // Stopping part-way keeps the pictures that were already done
       setGeneratedImages(result.images);
+      setGeneratedThumbnails(result.thumbnails || []);
       setPromptUsed(result.promptUsed);
+      setFromCache(!!result.cached);
       setStep('results');
+    } else if (result.cancelled) {
+      setStep('configure');
+    } else if (result.errorDetail?.code === 'BUDGET_EXHAUSTED') {
+      setResting({
+        message: result.error || '',
+        retryAfter: result.errorDetail.retryAfter || 0,
+      });
+      setStep('configure');
+    } else if (result.errorDetail?.code === 'RATE_LIMITED' && result.errorDetail.retryAfter) {
+      setCooldown(result.errorDetail.retryAfter);
+      setStep('configure');
     } else {
       setError(result.error || 'Something went wrong');
       setStep('configure');
@@ -98,13 +172,21 @@ export function SceneMaker({
     setIsGenerating(false);
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   // Save scene
-  const handleSave = () => {
+  const handleSave = async () => {
     if (selectedImageIndex === null) {
       setError('Pick your favorite image first! 🖼️');
       return;
     }
 
+    // Providers don't all make exactly the shape asked for, so measure the real picture
+    const chosenImage = generatedImages[selectedImageIndex];
+    const { naturalWidth, naturalHeight } = await loadImage(chosenImage);
+
     const scene: Scene = {
       id: uuidv4(),
       createdAt: Date.now(),
@@ -114,12 +196,34 @@ export function SceneMaker({
       userDescription: description,
       promptUsed,
       imageDataUrls: generatedImages,
-      chosenImageDataUrl: generatedImages[selectedImageIndex],
+      chosenImageDataUrl: chosenImage,
+      thumbnailDataUrl: generatedThumbnails[selectedImageIndex],
+      aspect,
+      width: naturalWidth,
+      height: naturalHeight,
     };
 
-    onSave(scene);
+    const result = await onSave(scene);
+    if (!result.isAllowed) {
+      setError(result.friendlyMessage || 'Let\'s use friendlier words!');
+    }
   };
 
+  if (resting) {
+    return (
+      <div className={styles.page}>
+        <div className={styles.container}>
+          <MagicResting
+            message={resting.message}
+            retryAfter={resting.retryAfter}
+            onAwake={handleAwake}
+            onBack={onCancel}
+          />
+        </div>
+      </div>
+    );
+  }
+
   // No animals case
   if (animals.length === 0) {
     return (
@@ -149,7 +253,7 @@ export function SceneMaker({
           <div className={styles.animalGrid}>
             {animals.map((animal) => {
               const isSelected = selectedAnimalIds.includes(animal.id);
-              const imageUrl = animal.portraitDataUrl || animal.stickerDataUrl;
+              const imageUrl = animal.thumbnailDataUrl || animal.portraitDataUrl || animal.stickerDataUrl;
               
               return (
                 <button
@@ -232,6 +336,25 @@ export function SceneMaker({
             </div>
           )}
 
+          {cooldown && (
+            <div className={styles.error}>
+              <span className={styles.errorIcon}>⏰</span>
+              <span>Whoa, slow down! You can make more pictures in <Countdown seconds={cooldown} onDone={handleCooldownDone} /></span>
+            </div>
+          )}
+
+          {suggestion && (
+            <RewriteSuggestion
+              suggestion={suggestion}
+              onUse={(text) => {
+                logRewriteAccepted('scene.userDescription', description, text, getFilterOptions(settings));
+                setDescription(text);
+                setSuggestion(null);
+                setError(null);
+              }}
+            />
+          )}
+
           {/* Location */}
           <div className={styles.field}>
             <label className={styles.label}>Where are they?</label>
@@ -249,6 +372,23 @@ export function SceneMaker({
             </div>
           </div>
 
+          {/* Shape */}
+          <div className={styles.field}>
+            <label className={styles.label}>What shape?</label>
+            <div className={styles.locationGrid}>
+              {ASPECTS.map((shape) => (
+                <button
+                  key={shape.value}
+                  className={`${styles.locationButton} ${aspect === shape.value ? styles.locationSelected : ''}`}
+                  onClick={() => setAspect(shape.value)}
+                >
+                  <span className={styles.shapeIcon} style={{ aspectRatio: shape.ratio }}></span>
+                  <span className={styles.locationLabel}>{shape.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Description */}
           <div className={styles.field}>
             <label className={styles.label}>
@@ -262,7 +402,10 @@ export function SceneMaker({
               className={styles.textarea}
               placeholder="Describe the scene! What are your animals doing? Or tap the 🎤 to speak!"
               value={description}
-              onChange={(e) => setDescription(e.target.value)}
+              onChange={(e) => {
+                setDescription(e.target.value);
+                setSuggestion(null);
+              }}
               maxLength={500}
               rows={4}
             />
@@ -278,8 +421,8 @@ export function SceneMaker({
             </button>
             <button
               className={styles.generateButton}
-              onClick={handleGenerate}
-              disabled={!description.trim()}
+              onClick={() => handleGenerate()}
+              disabled={!description.trim() || !!cooldown}
             >
               ✨ Make Pictures!
             </button>
@@ -303,11 +446,33 @@ export function SceneMaker({
           <div className={styles.generatingIcon}>🎨</div>
           <h2 className={styles.generatingTitle}>Creating Your Scene...</h2>
           <p className={styles.generatingText}>
-            The magic is happening! This might take a moment.
+            {generatedImages.length === 0
+              ? 'The magic is happening! This might take a moment.'
+              : `${generatedImages.length} of ${settings.imageCount} pictures ready!`}
           </p>
-          <div className={styles.loadingBar}>
-            <div className={styles.loadingProgress}></div>
-          </div>
+          {generatedImages.length === 0 ? (
+            <div className={styles.loadingBar}>
+              <div className={styles.loadingProgress}></div>
+            </div>
+          ) : (
+            <div className={styles.resultsGrid}>
+              {Array.from({ length: Math.max(settings.imageCount, generatedImages.length) }, (_, index) => (
+                generatedImages[index] ? (
+                  <img
+                    key={index}
+                    src={generatedImages[index]}
+                    alt={`Scene option ${index + 1}`}
+                    className={`${styles.resultImage} ${styles.arrivedImage}`}
+                  />
+                ) : (
+                  <div key={index} className={styles.pendingImage} style={{ aspectRatio: ASPECTS.find(shape => shape.value === aspect)?.ratio }}>✨</div>
+                )
+              ))}
+            </div>
+          )}
+          <button className={styles.stopButton} onClick={handleStop}>
+            {generatedImages.length === 0 ? '✋ Stop' : '✋ Stop and keep these'}
+          </button>
         </div>
       </div>
     );
@@ -318,7 +483,11 @@ export function SceneMaker({
     <div className={styles.page}>
       <div className={styles.container}>
         <h2 className={styles.title}>🎉 Pick Your Favorite!</h2>
-        <p className={styles.subtitle}>Tap the picture you like best</p>
+        <p className={styles.subtitle}>
+          {fromCache
+            ? 'These are the same pictures as last time! Tap one, or make new ones ✨'
+            : 'Tap the picture you like best'}
+        </p>
 
         {error && (
           <div className={styles.error}>
@@ -354,7 +523,10 @@ export function SceneMaker({
             className={styles.input}
             placeholder={`${selectedAnimals.map(a => a.name).join(' & ')}'s Adventure`}
             value={title}
-            onChange={(e) => setTitle(e.target.value)}
+            onChange={(e) => {
+              setTitle(e.target.value);
+              setError(null);
+            }}
             maxLength={100}
           />
         </div>
@@ -362,10 +534,10 @@ export function SceneMaker({
         <div className={styles.actions}>
           <button 
             className={styles.regenerateButton}
-            onClick={handleGenerate}
-            disabled={isGenerating}
+            onClick={() => handleGenerate(true)}
+            disabled={isGenerating || !!cooldown}
           >
-            🔄 New Pictures
+            ✨ Make New Ones
           </button>
           <button
             className={styles.saveButton}
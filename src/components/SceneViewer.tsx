@@ -4,7 +4,9 @@
 // ============================================
 
 import { useState, useRef, useEffect } from 'react';
-import { Scene, Animal } from '../types';
+import { Scene, Animal, Settings } from '../types';
+import { getFilterOptions } from '../services/contentFilter';
+import { validateField, ValidationResult } from '../services/validation';
 import { 
   startRecording, 
   stopRecording, 
@@ -16,13 +18,15 @@ import styles from './SceneViewer.module.css';
 interface SceneViewerProps {
   scene: Scene;
   animals: Animal[];
-  onUpdate: (scene: Scene) => void;
+  settings: Settings;
+  onUpdate: (scene: Scene) => Promise<ValidationResult>;
   onClose: () => void;
 }
 
-export function SceneViewer({ scene, animals, onUpdate, onClose }: SceneViewerProps) {
+export function SceneViewer({ scene, animals, settings, onUpdate, onClose }: SceneViewerProps) {
   const [caption, setCaption] = useState(scene.caption || '');
   const [isEditingCaption, setIsEditingCaption] = useState(false);
+  const [captionError, setCaptionError] = useState<string | null>(null);
   const [voiceNote, setVoiceNote] = useState(scene.voiceNoteDataUrl || null);
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -36,9 +40,20 @@ export function SceneViewer({ scene, animals, onUpdate, onClose }: SceneViewerPr
     .filter(Boolean) as Animal[];
 
   // Handle caption save
-  const handleSaveCaption = () => {
+  const handleSaveCaption = async () => {
+    const captionCheck = validateField('scene.caption', caption, getFilterOptions(settings));
+    if (!captionCheck.isAllowed) {
+      setCaptionError(captionCheck.friendlyMessage || 'Let\'s use friendlier words!');
+      return;
+    }
+
     const updatedScene = { ...scene, caption: caption.trim() || undefined };
-    onUpdate(updatedScene);
+    const result = await onUpdate(updatedScene);
+    if (!result.isAllowed) {
+      setCaptionError(result.friendlyMessage || 'Let\'s use friendlier words!');
+      return;
+    }
+    setCaptionError(null);
     setIsEditingCaption(false);
   };
 
@@ -118,6 +133,8 @@ export function SceneViewer({ scene, animals, onUpdate, onClose }: SceneViewerPr
           <img 
             src={scene.chosenImageDataUrl || scene.imageDataUrls[0]} 
             alt={scene.title}
+            width={scene.width}
+            height={scene.height}
             className={styles.mainImage}
           />
         </div>
@@ -154,17 +171,24 @@ export function SceneViewer({ scene, animals, onUpdate, onClose }: SceneViewerPr
                 <textarea
                   className={styles.captionInput}
                   value={caption}
-                  onChange={(e) => setCaption(e.target.value)}
+                  onChange={(e) => {
+                    setCaption(e.target.value);
+                    setCaptionError(null);
+                  }}
                   placeholder="Write a caption for this scene..."
                   maxLength={500}
                   rows={3}
                   autoFocus
                 />
+                {captionError && (
+                  <p className={styles.captionError}>💭 {captionError}</p>
+                )}
                 <div className={styles.captionActions}>
                   <button 
                     className={styles.captionCancel}
                     onClick={() => {
                       setCaption(scene.caption || '');
+                      setCaptionError(null);
                       setIsEditingCaption(false);
                     }}
                   >
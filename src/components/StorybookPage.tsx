@@ -64,7 +64,7 @@ export function StorybookPage({
                     className={styles.cardImage}
                     style={{ 
                       backgroundImage: scene.chosenImageDataUrl 
-                        ? `url(${scene.chosenImageDataUrl})` 
+                        ? `url(${scene.thumbnailDataUrl || scene.chosenImageDataUrl})` 
                         : undefined 
                     }}
                   >
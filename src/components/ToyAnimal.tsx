@@ -5,14 +5,17 @@
 
 import { useState, useRef, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Animal, Species, Personality } from '../types';
-import { validateAnimalName } from '../services/contentFilter';
+import { Animal, Species, Personality, Settings } from '../types';
+import { getFilterOptions } from '../services/contentFilter';
+import { validateAnimal, ValidationResult } from '../services/validation';
 import { fileToDataUrl, processToyStickerPhoto } from '../utils/imageProcessing';
+import { compressImage } from '../utils/imageCompression';
 import { VoiceInput } from './VoiceInput';
 import styles from './ToyAnimal.module.css';
 
 interface ToyAnimalProps {
-  onSave: (animal: Animal) => void;
+  settings: Settings;
+  onSave: (animal: Animal) => Promise<ValidationResult>;
   onCancel: () => void;
 }
 
@@ -28,10 +31,11 @@ const PERSONALITY_OPTIONS: Personality[] = [
   'Calm', 'Adventurous', 'Gentle', 'Playful'
 ];
 
-export function ToyAnimal({ onSave, onCancel }: ToyAnimalProps) {
+export function ToyAnimal({ settings, onSave, onCancel }: ToyAnimalProps) {
   const [step, setStep] = useState<Step>('capture');
   const [rawPhoto, setRawPhoto] = useState<string | null>(null);
   const [stickerImage, setStickerImage] = useState<string | null>(null);
+  const [stickerThumbnail, setStickerThumbnail] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   
   // Animal details
@@ -125,8 +129,9 @@ export function ToyAnimal({ onSave, onCancel }: ToyAnimalProps) {
     setError(null);
     
     try {
-      const sticker = await processToyStickerPhoto(rawPhoto);
-      setStickerImage(sticker);
+      const sticker = await compressImage(await processToyStickerPhoto(rawPhoto), settings.imageStorage);
+      setStickerImage(sticker.image);
+      setStickerThumbnail(sticker.thumbnail || null);
       setStep('details');
     } catch (err) {
       console.error('Processing error:', err);
@@ -134,23 +139,18 @@ export function ToyAnimal({ onSave, onCancel }: ToyAnimalProps) {
     }
     
     setIsProcessing(false);
-  }, [rawPhoto]);
+  }, [rawPhoto, settings.imageStorage]);
 
   // Retake photo
   const retakePhoto = useCallback(() => {
     setRawPhoto(null);
     setStickerImage(null);
+    setStickerThumbnail(null);
     setStep('capture');
   }, []);
 
   // Save animal
-  const handleSave = () => {
-    const nameCheck = validateAnimalName(name);
-    if (!nameCheck.isAllowed) {
-      setError(nameCheck.friendlyMessage || 'Please enter a valid name');
-      return;
-    }
-    
+  const handleSave = async () => {
     if (!stickerImage) {
       setError('No photo processed yet!');
       return;
@@ -169,9 +169,19 @@ export function ToyAnimal({ onSave, onCancel }: ToyAnimalProps) {
       },
       specialThing: specialThing.trim() || undefined,
       stickerDataUrl: stickerImage,
+      thumbnailDataUrl: stickerThumbnail || undefined,
     };
 
-    onSave(animal);
+    const check = validateAnimal(animal, getFilterOptions(settings));
+    if (!check.isAllowed) {
+      setError(check.friendlyMessage || 'Let\'s use friendlier words!');
+      return;
+    }
+
+    const result = await onSave(animal);
+    if (!result.isAllowed) {
+      setError(result.friendlyMessage || 'Let\'s use friendlier words!');
+    }
   };
 
   // Render based on step
@@ -377,7 +387,10 @@ export function ToyAnimal({ onSave, onCancel }: ToyAnimalProps) {
               className={styles.input}
               placeholder="e.g., loves to run, best friend ever"
               value={specialThing}
-              onChange={(e) => setSpecialThing(e.target.value)}
+              onChange={(e) => {
+                setSpecialThing(e.target.value);
+                setError(null);
+              }}
               maxLength={100}
             />
             <VoiceInput 
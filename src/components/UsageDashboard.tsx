@@ -0,0 +1,192 @@
+// ============================================
+// Usage Dashboard
+// Parent Mode totals from the local usage ledger, with CSV export
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { UsageEntry, UsageFeature } from '../types';
+import { clearUsage, getUsage } from '../services/database';
+import styles from './ParentMode.module.css';
+
+interface Totals {
+  generations: number;
+  images: number;
+  cost: number;
+}
+
+const FEATURE_LABELS: Record<UsageFeature, string> = {
+  portrait: '🎨 Portraits',
+  scene: '🖼️ Scenes',
+};
+
+const WEEK_DAYS = 7;
+
+// Local midnight, `daysAgo` days back (calendar days, so DST changes don't shift it)
+function startOfDay(timestamp: number, daysAgo = 0): number {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function sum(entries: UsageEntry[]): Totals {
+  return entries.reduce(
+    (totals, entry) => ({
+      generations: totals.generations + 1,
+      images: totals.images + entry.images,
+      cost: totals.cost + entry.estimatedCost,
+    }),
+    { generations: 0, images: 0, cost: 0 }
+  );
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`;
+}
+
+// Quote a CSV cell when it needs it
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: UsageEntry[]): string {
+  const header = ['timestamp', 'feature', 'providers', 'models', 'images', 'duration_ms', 'estimated_cost_usd', 'cancelled'];
+  const rows = entries.map((entry) => [
+    new Date(entry.timestamp).toISOString(),
+    entry.feature,
+    entry.providers.join('+'),
+    entry.models.join('+'),
+    entry.images,
+    entry.durationMs,
+    entry.estimatedCost.toFixed(4),
+    entry.cancelled ? 'yes' : '',
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+export function UsageDashboard() {
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Captured once so the day boundaries don't move while the panel is open
+  const [today] = useState(() => startOfDay(Date.now()));
+
+  useEffect(() => {
+    let cancelled = false;
+    getUsage(startOfDay(today, WEEK_DAYS - 1))
+      .then((ledger) => {
+        if (!cancelled) setEntries(ledger);
+      })
+      .catch((error) => console.error('Failed to load usage:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [today]);
+
+  const handleExport = async () => {
+    const all = await getUsage();
+    const blob = new Blob([toCsv(all)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `picture-usage-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Clear the whole usage history? This cannot be undone.')) return;
+    await clearUsage();
+    setEntries([]);
+  };
+
+  const todayTotals = sum(entries.filter((entry) => entry.timestamp >= today));
+  const weekTotals = sum(entries);
+  const days = Array.from({ length: WEEK_DAYS }, (_, i) => startOfDay(today, i));
+  const features = Object.keys(FEATURE_LABELS) as UsageFeature[];
+
+  return (
+    <section className={styles.section}>
+      <h3 className={styles.sectionTitle}>💰 Picture Usage</h3>
+      <p className={styles.sectionDesc}>
+        Pictures made on this device and what they probably cost. <small>(Estimates from list prices; check your provider's bill for the real numbers.)</small>
+      </p>
+
+      {isLoading ? (
+        <p className={styles.hint}>Loading...</p>
+      ) : (
+        <>
+          <div className={styles.usageStats}>
+            <div className={styles.usageStat}>
+              <div className={styles.usageStatLabel}>Today</div>
+              <div className={styles.usageStatValue}>{todayTotals.images} pictures · {formatCost(todayTotals.cost)}</div>
+            </div>
+            <div className={styles.usageStat}>
+              <div className={styles.usageStatLabel}>Last 7 days</div>
+              <div className={styles.usageStatValue}>{weekTotals.images} pictures · {formatCost(weekTotals.cost)}</div>
+            </div>
+          </div>
+
+          <table className={styles.usageTable}>
+            <thead>
+              <tr>
+                <th>Last 7 days</th>
+                <th>Times</th>
+                <th>Pictures</th>
+                <th>Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {features.map((feature) => {
+                const totals = sum(entries.filter((entry) => entry.feature === feature));
+                return (
+                  <tr key={feature}>
+                    <td>{FEATURE_LABELS[feature]}</td>
+                    <td>{totals.generations}</td>
+                    <td>{totals.images}</td>
+                    <td>{formatCost(totals.cost)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <table className={styles.usageTable}>
+            <thead>
+              <tr>
+                <th>Day</th>
+                <th>Times</th>
+                <th>Pictures</th>
+                <th>Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {days.map((day, i) => {
+                const end = i === 0 ? Infinity : days[i - 1];
+                const totals = sum(entries.filter((entry) => entry.timestamp >= day && entry.timestamp < end));
+                return (
+                  <tr key={day}>
+                    <td>{day === today ? 'Today' : new Date(day).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}</td>
+                    <td>{totals.generations}</td>
+                    <td>{totals.images}</td>
+                    <td>{formatCost(totals.cost)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <div className={styles.dataButtons}>
+        <button className={styles.dataButton} onClick={handleExport}>📤 Export CSV</button>
+        <button className={styles.dataButton} onClick={handleClear} disabled={entries.length === 0}>🗑️ Clear Usage</button>
+      </div>
+    </section>
+  );
+}
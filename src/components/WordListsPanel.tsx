@@ -0,0 +1,133 @@
+// ============================================
+// Word Lists Panel
+// Parent Mode editor for the family's blocked/allowed words
+// ============================================
+
+import { useState } from 'react';
+import { CustomWordLists } from '../types';
+import { normalizeTerm } from '../services/contentFilter';
+import styles from './ParentMode.module.css';
+
+interface WordListsPanelProps {
+  wordLists: CustomWordLists;
+  onChange: (wordLists: CustomWordLists) => void;
+}
+
+type ListKey = 'blocked' | 'allowed';
+
+export function WordListsPanel({ wordLists, onChange }: WordListsPanelProps) {
+  const [newBlocked, setNewBlocked] = useState('');
+  const [newAllowed, setNewAllowed] = useState('');
+  const [altWord, setAltWord] = useState('');
+  const [altSuggestion, setAltSuggestion] = useState('');
+
+  const addTerm = (key: ListKey, value: string, reset: () => void) => {
+    const term = normalizeTerm(value);
+    if (!term) return;
+    if (!wordLists[key].includes(term)) {
+      onChange({ ...wordLists, [key]: [...wordLists[key], term] });
+    }
+    reset();
+  };
+
+  const removeTerm = (key: ListKey, term: string) => {
+    onChange({ ...wordLists, [key]: wordLists[key].filter(t => t !== term) });
+  };
+
+  const addAlternative = () => {
+    const word = normalizeTerm(altWord);
+    const suggestion = altSuggestion.trim();
+    if (!word || !suggestion) return;
+    onChange({ ...wordLists, alternatives: { ...wordLists.alternatives, [word]: suggestion } });
+    setAltWord('');
+    setAltSuggestion('');
+  };
+
+  const removeAlternative = (word: string) => {
+    const alternatives = { ...wordLists.alternatives };
+    delete alternatives[word];
+    onChange({ ...wordLists, alternatives });
+  };
+
+  const renderList = (key: ListKey, value: string, setValue: (value: string) => void, placeholder: string) => (
+    <>
+      <div className={styles.termInputRow}>
+        <input
+          type="text"
+          className={styles.input}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addTerm(key, value, () => setValue(''))}
+          maxLength={40}
+        />
+        <button className={styles.dataButton} onClick={() => addTerm(key, value, () => setValue(''))}>+ Add</button>
+      </div>
+      {wordLists[key].length > 0 && (
+        <div className={styles.termChips}>
+          {wordLists[key].map((term) => (
+            <span key={term} className={styles.termChip}>
+              {term}
+              <button className={styles.termRemove} onClick={() => removeTerm(key, term)} aria-label={`Remove ${term}`}>×</button>
+            </span>
+          ))}
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <section className={styles.section}>
+      <h3 className={styles.sectionTitle}>📝 Word Lists</h3>
+      <p className={styles.sectionDesc}>Add your own words on top of the built-in filter. Changes save right away.</p>
+
+      <div className={styles.field}>
+        <label className={styles.label}>🚫 Extra blocked words</label>
+        {renderList('blocked', newBlocked, setNewBlocked, 'e.g., a name or a word that upsets')}
+      </div>
+
+      <div className={styles.field}>
+        <label className={styles.label}>✅ Always-allowed words</label>
+        {renderList('allowed', newAllowed, setNewAllowed, 'e.g., love')}
+        <small className={styles.hint}>
+          Allowed words apply on this device. To use them in pictures too, add them to CONTENT_ALLOWED_TERMS on Vercel.
+        </small>
+      </div>
+
+      <div className={styles.field}>
+        <label className={styles.label}>💡 Gentle alternatives</label>
+        <div className={styles.termInputRow}>
+          <input
+            type="text"
+            className={styles.input}
+            placeholder="Word"
+            value={altWord}
+            onChange={(e) => setAltWord(e.target.value)}
+            maxLength={40}
+          />
+          <input
+            type="text"
+            className={styles.input}
+            placeholder="Try instead"
+            value={altSuggestion}
+            onChange={(e) => setAltSuggestion(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addAlternative()}
+            maxLength={40}
+          />
+          <button className={styles.dataButton} onClick={addAlternative}>+ Add</button>
+        </div>
+        {Object.keys(wordLists.alternatives).length > 0 && (
+          <div className={styles.termChips}>
+            {Object.entries(wordLists.alternatives).map(([word, suggestion]) => (
+              <span key={word} className={styles.termChip}>
+                {word} → {suggestion}
+                <button className={styles.termRemove} onClick={() => removeAlternative(word)} aria-label={`Remove ${word}`}>×</button>
+              </span>
+            ))}
+          </div>
+        )}
+        <small className={styles.hint}>Shown to your child when Extra Gentle Mode is on.</small>
+      </div>
+    </section>
+  );
+}
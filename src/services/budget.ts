@@ -0,0 +1,135 @@
+// ============================================
+// Daily Budget
+// Parent-set picture limits, checked against the usage ledger before each request
+// ============================================
+
+import { ApiErrorBody, GenerationLimits, UsageFeature } from '../types';
+import { getUsage } from './database';
+
+export interface BudgetCheck {
+  // Pictures this request may make (trimmed to what's left today)
+  allowedImages: number;
+  // Set when nothing may be made right now
+  exhausted?: ApiErrorBody;
+}
+
+export interface UsedToday {
+  images: number;
+  scenes: number;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export function isWithinAllowedHours(hours: GenerationLimits['allowedHours'], hour: number): boolean {
+  if (!hours || hours.start === hours.end) return true;
+  // An evening-to-morning window like 20-7 wraps past midnight
+  return hours.start < hours.end
+    ? hour >= hours.start && hour < hours.end
+    : hour >= hours.start || hour < hours.end;
+}
+
+// Seconds from now until the clock next reads hour:00
+function secondsUntilHour(hour: number, secondsIntoDay: number): number {
+  return (hour * 3600 - secondsIntoDay + DAY_SECONDS) % DAY_SECONDS || DAY_SECONDS;
+}
+
+// Seconds until tomorrow's budget opens: midnight, or the first allowed hour after it
+function secondsUntilTomorrow(limits: GenerationLimits, secondsIntoDay: number): number {
+  const untilMidnight = DAY_SECONDS - secondsIntoDay;
+  if (!limits.allowedHours || isWithinAllowedHours(limits.allowedHours, 0)) return untilMidnight;
+  return untilMidnight + limits.allowedHours.start * 3600;
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+// The rules on their own, so the server can apply them in its own time zone
+export function evaluateBudget(
+  limits: GenerationLimits,
+  used: UsedToday,
+  feature: UsageFeature,
+  requested: number,
+  secondsIntoDay: number
+): BudgetCheck {
+  const hour = Math.floor(secondsIntoDay / 3600);
+
+  if (limits.allowedHours && !isWithinAllowedHours(limits.allowedHours, hour)) {
+    const { start, end } = limits.allowedHours;
+    return {
+      allowedImages: 0,
+      exhausted: {
+        error: `Outside allowed hours (${formatHour(start)}-${formatHour(end)})`,
+        code: 'BUDGET_EXHAUSTED',
+        reason: 'OUTSIDE_ALLOWED_HOURS',
+        retryAfter: secondsUntilHour(start, secondsIntoDay),
+      },
+    };
+  }
+
+  if (feature === 'scene' && limits.scenesPerDay > 0 && used.scenes >= limits.scenesPerDay) {
+    return {
+      allowedImages: 0,
+      exhausted: {
+        error: `Daily scene limit reached (${used.scenes}/${limits.scenesPerDay})`,
+        code: 'BUDGET_EXHAUSTED',
+        reason: 'DAILY_SCENE_LIMIT',
+        retryAfter: secondsUntilTomorrow(limits, secondsIntoDay),
+      },
+    };
+  }
+
+  if (limits.imagesPerDay > 0) {
+    const left = limits.imagesPerDay - used.images;
+    if (left <= 0) {
+      return {
+        allowedImages: 0,
+        exhausted: {
+          error: `Daily picture limit reached (${used.images}/${limits.imagesPerDay})`,
+          code: 'BUDGET_EXHAUSTED',
+          reason: 'DAILY_IMAGE_LIMIT',
+          retryAfter: secondsUntilTomorrow(limits, secondsIntoDay),
+        },
+      };
+    }
+    return { allowedImages: Math.min(requested, left) };
+  }
+
+  return { allowedImages: requested };
+}
+
+// Just the allowed hours, for pictures served from a cache: they cost nothing, so the daily
+// counts don't apply, but the parent's picture hours still do
+export function evaluateAllowedHours(limits: GenerationLimits, secondsIntoDay: number): ApiErrorBody | null {
+  const hoursOnly = { ...limits, imagesPerDay: 0, scenesPerDay: 0 };
+  return evaluateBudget(hoursOnly, { images: 0, scenes: 0 }, 'scene', 1, secondsIntoDay).exhausted || null;
+}
+
+function startOfLocalDay(now: number): number {
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  return midnight.getTime();
+}
+
+// Client-side check, from today's entries in the usage ledger
+export async function checkBudget(
+  limits: GenerationLimits,
+  feature: UsageFeature,
+  requested: number,
+  now = Date.now()
+): Promise<BudgetCheck> {
+  const midnight = startOfLocalDay(now);
+  const entries = await getUsage(midnight, now);
+  const used: UsedToday = {
+    images: entries.reduce((total, entry) => total + entry.images, 0),
+    // Like the server, a scene only counts once a picture arrived (older ledgers have empty stopped entries)
+    scenes: entries.filter((entry) => entry.feature === 'scene' && entry.images > 0).length,
+  };
+
+  return evaluateBudget(limits, used, feature, requested, Math.floor((now - midnight) / 1000));
+}
+
+// Client-side allowed-hours check, in the device's time zone
+export function checkAllowedHours(limits: GenerationLimits, now = Date.now()): ApiErrorBody | null {
+  return evaluateAllowedHours(limits, Math.floor((now - startOfLocalDay(now)) / 1000));
+}
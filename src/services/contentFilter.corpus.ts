@@ -0,0 +1,101 @@
+// Everyday text for measuring the filter's false positives (see contentFilter.test.ts).
+// Names and phrases are kept whether or not the filter currently blocks them.
+
+// Common pet and farm-animal names
+export const ANIMAL_NAMES = [
+  'Abby', 'Ace', 'Ajax', 'Albert', 'Alfie', 'Amber', 'Angel', 'Annie', 'Apache', 'Apollo',
+  'Apple', 'Archie', 'Arrow', 'Ash', 'Aspen', 'Atlas', 'Aurora', 'Autumn', 'Axel', 'Bailey',
+  'Bambi', 'Bandit', 'Banjo', 'Barney', 'Baxter', 'Bean', 'Bear', 'Beau', 'Bella', 'Belle',
+  'Benji', 'Bentley', 'Betsy', 'Biscuit', 'Blaze', 'Blossom', 'Blue', 'Bluebell', 'Bo', 'Bonnie',
+  'Boomer', 'Boots', 'Bramble', 'Brandy', 'Breeze', 'Brownie', 'Bruno', 'Bubba', 'Bubbles', 'Buck',
+  'Buddy', 'Buster', 'Buttercup', 'Button', 'Buttons', 'Cali', 'Calvin', 'Candy', 'Captain', 'Caramel',
+  'Casper', 'Champ', 'Charlie', 'Charm', 'Cheddar', 'Cheerio', 'Chester', 'Chestnut', 'Chewy', 'Chico',
+  'Chief', 'Chip', 'Chloe', 'Cinnamon', 'Clover', 'Coco', 'Cocoa', 'Comet', 'Cookie', 'Cooper',
+  'Copper', 'Cosmo', 'Cotton', 'Cupcake', 'Daisy', 'Dakota', 'Dash', 'Dexter', 'Diamond', 'Diesel',
+  'Dixie', 'Dolly', 'Domino', 'Donut', 'Dottie', 'Duchess', 'Duke', 'Dumpling', 'Dusty', 'Echo',
+  'Eeyore', 'Ellie', 'Elvis', 'Ember', 'Emma', 'Fancy', 'Feather', 'Fern', 'Fiona', 'Fizz',
+  'Flash', 'Flicka', 'Flopsy', 'Flower', 'Fluffy', 'Freckles', 'Fudge', 'Gatsby', 'Gem', 'Gemma',
+  'George', 'Gigi', 'Ginger', 'Gizmo', 'Goldie', 'Goose', 'Gracie', 'Gus', 'Gypsy', 'Hank',
+  'Harley', 'Harper', 'Hazel', 'Henry', 'Hershey', 'Honey', 'Hope', 'Huckleberry', 'Hudson', 'Iggy',
+  'Indigo', 'Iris', 'Ivy', 'Jack', 'Jade', 'Jasper', 'Jazz', 'Jellybean', 'Jessie', 'Jewel',
+  'Jinx', 'Joey', 'JoJo', 'Juniper', 'Jupiter', 'Kiki', 'King', 'Kit', 'Kiwi', 'Koda',
+  'Lady', 'Lemon', 'Leo', 'Lilly', 'Lily', 'Linus', 'Loki', 'Lola', 'Louie', 'Lucky',
+  'Lucy', 'Lulu', 'Luna', 'Mabel', 'Maggie', 'Mango', 'Maple', 'Marley', 'Marshmallow', 'Max',
+  'Maya', 'Meadow', 'Merlin', 'Mickey', 'Midnight', 'Milo', 'Millie', 'Mimi', 'Minnie', 'Minty',
+  'Miracle', 'Missy', 'Misty', 'Mocha', 'Molly', 'Monty', 'Moose', 'Muffin', 'Murphy', 'Mustang',
+  'Nala', 'Nellie', 'Nibbles', 'Nova', 'Nugget', 'Nutmeg', 'Oakley', 'Oatmeal', 'Olive', 'Oliver',
+  'Ollie', 'Onyx', 'Oreo', 'Oscar', 'Otis', 'Patch', 'Patches', 'Peaches', 'Peanut', 'Pearl',
+  'Pebbles', 'Penny', 'Pepper', 'Pickles', 'Piglet', 'Pip', 'Pippin', 'Pixie', 'Pogo', 'Polly',
+  'Pony', 'Poppy', 'Porkchop', 'Prancer', 'Precious', 'Primrose', 'Prince', 'Princess', 'Pudding', 'Pumpkin',
+  'Quincy', 'Rainbow', 'Raisin', 'Ranger', 'Rascal', 'Raven', 'Red', 'Reggie', 'Rex', 'Ricky',
+  'Ripley', 'River', 'Rocket', 'Rocky', 'Rolo', 'Romeo', 'Rosie', 'Rowdy', 'Ruby', 'Rudy',
+  'Rufus', 'Rusty', 'Sable', 'Sadie', 'Saffron', 'Sage', 'Sally', 'Salty', 'Sammy', 'Sandy',
+  'Sapphire', 'Sasha', 'Scout', 'Scooter', 'Shadow', 'Shamrock', 'Shiloh', 'Silver', 'Simba', 'Sky',
+  'Skippy', 'Smoky', 'Snickers', 'Snowball', 'Snowflake', 'Snowy', 'Socks', 'Sonny', 'Sophie', 'Sparkle',
+  'Sparky', 'Spike', 'Spirit', 'Spot', 'Sprinkles', 'Star', 'Starlight', 'Stella', 'Sugar', 'Sunny',
+  'Sunshine', 'Sweetpea', 'Taffy', 'Tango', 'Teddy', 'Thistle', 'Thor', 'Thunderbolt', 'Tiger', 'Tilly',
+  'Timber', 'Tinkerbell', 'Toby', 'Toffee', 'Tootsie', 'Trixie', 'Truffle', 'Tucker', 'Tulip', 'Twinkle',
+  'Valentine', 'Velvet', 'Violet', 'Waffles', 'Wally', 'Whiskers', 'Willow', 'Winnie', 'Winston', 'Wiggles',
+  'Ziggy', 'Zeus', 'Zoe', 'Zoey', 'Zorro', 'Mr. Pickles', 'Lady Bug', 'Sir Hops-a-Lot', 'B.B.', 'J.J.',
+  'R2', 'K9', 'Agent 99', 'Hay-Hay', 'Moo Moo', 'Baa Baa', 'Oink', 'Clucky', 'Quackers', 'Billy Goat',
+  'Gunner', 'Ghost', 'Storm', 'Stormy', 'Thunder', 'Smokey', 'Whiskey', 'Killer', 'Rebel', 'Trigger',
+];
+
+// Everyday scene descriptions, with the numbers, emoji, initials and stretched spelling kids use
+export const EVERYDAY_DESCRIPTIONS = [
+  'the pony eats 3 apples in the meadow',
+  'two bunnies hop over 4 logs',
+  'Daisy and Buttercup share a picnic 🍎🥕',
+  'the kitten naps in a sunbeam ☀️',
+  'a sooo fluffy sheep rolls in the grass',
+  'the goat is soooo happy today!!!',
+  'the puppy says woof woof woof',
+  'the ducks swim in a row: 1, 2, 3, 4, 5',
+  'A.J. the horse jumps the big red fence',
+  'the cow moos at the farmer at 7 in the morning',
+  'the chickens lay eggs in the barn 🥚',
+  'the pig splashes in a mud puddle 🐷',
+  'the horses race to the big oak tree and back',
+  'a rainbow over the barn after the rain 🌈',
+  'Luna and Milo build a snowman ⛄',
+  'the foal takes its first steps',
+  'the lambs play tag in the field',
+  'the dog fetches a stick from the pond',
+  'the cat climbs up to the hayloft',
+  'the bunny eats a carrot in 2 bites',
+  'a picnic with strawberries and lemonade',
+  'the goat wears a party hat for her birthday 🎉',
+  'the pony gets a bath with lots of bubbles',
+  'the horses go trick-or-treating in costumes',
+  'the ducklings follow their mom to the pond',
+  'the cow rings her bell: ding ding ding',
+  'the sheep count stars before bed ⭐⭐⭐',
+  'the kittens chase a ball of yarn',
+  'the barn cat sleeps on a warm blanket',
+  'the rooster crows at 6 a.m.',
+  'Patch the pony wins 1st place at the show 🏆',
+  'the horses wear flower crowns 🌸',
+  'the dog and the cat are best friends',
+  'the pig bakes a cake with 10 candles 🎂',
+  'a tea party in the garden with teddy bears',
+  'the pony skips through the puddles',
+  'the chicks peep peep peep in the sunshine',
+  'the horse gallops across the beach at sunset',
+  'the bunny hides eggs for the egg hunt',
+  'the goats climb the hay bales to the top',
+  'the donkey carries a basket of apples',
+  'the calves drink milk from a bucket',
+  'the puppy learns to sit and shake hands',
+  'the horses splash in the river on a hot day',
+  'Mr. Whiskers reads a book by the fire',
+  'the cows dance in the meadow, yaaay!',
+  'the horse wears a blue ribbon and a big smile 😊',
+  'the animals sing songs around the campfire 🎶',
+  'the pony and the goat share a bowl of oats',
+  'the kitten plays hide and seek in the laundry basket',
+  'the sheep knit scarves for winter 🧣',
+  'a killer whale jumps in the sea',
+  'the merchant wares at the market',
+  'the goat learns her letters: a, b, c, d, e, a, d',
+  'the horses have a water fight in the river',
+];
@@ -0,0 +1,74 @@
+// Words the filter has got wrong before, and tricks it has to catch.
+
+import { describe, expect, it } from 'vitest';
+import { SafetyProfileId } from '../types';
+import { checkContent, EMPTY_WORD_LISTS, SAFETY_PROFILES } from './contentFilter';
+import { ANIMAL_NAMES, EVERYDAY_DESCRIPTIONS } from './contentFilter.corpus';
+
+type Row = [input: string, profile: SafetyProfileId, isAllowed: boolean, matchedTerm: string | undefined];
+
+const ROWS: Row[] = [
+  // Past false positives: a blocked term hidden inside an ordinary word
+  ['a warm blanket', 'little-ones', true, undefined],
+  ['a warm blanket', 'kids', true, undefined],
+  ['she has great skill at jumping', 'kids', true, undefined],
+  ['the skills contest', 'tweens', true, undefined],
+  ['a healthy diet of hay', 'kids', true, undefined],
+  ['a glove on the fence', 'little-ones', true, undefined],
+  ['a swordfish in the river', 'kids', true, undefined],
+  ['Sadie the cow', 'little-ones', true, undefined],
+  ['Sadie the cow', 'tweens', true, undefined],
+  ['a smoke-grey pony', 'kids', true, undefined],
+  ['a smoke-grey pony', 'little-ones', true, undefined],
+  ['a killer whale in the sea', 'kids', true, undefined],
+  ['Gunner the dog', 'kids', true, undefined],
+  ['the merchant wares at the market', 'kids', true, undefined],
+
+  // Obfuscated spellings
+  ['the pony wants to k1ll the dragon', 'kids', false, 'kill'],
+  ['the horse is d e a d', 'kids', false, 'dead'],
+  ['a sc4ry cave', 'kids', false, 'scary'],
+  ['kiiill', 'tweens', false, 'kill'],
+  ['k.i.l.l', 'kids', false, 'kill'],
+  ['the goat learns her letters: a, b, c, d, e, a, d', 'kids', true, undefined],
+
+  // Inflected forms that still count
+  ['the knights are fighting', 'kids', false, 'fighting'],
+  ['two armies at wars', 'tweens', false, 'war'],
+  ['the kisses', 'kids', false, 'kiss'],
+  ['a hater', 'kids', false, 'hate'],
+];
+
+describe('checkContent', () => {
+  it.each(ROWS)('%j (%s)', (input, profile, isAllowed, matchedTerm) => {
+    const result = checkContent(input, { profile }, EMPTY_WORD_LISTS);
+    expect(result.isAllowed).toBe(isAllowed);
+    expect(result.matchedTerm).toBe(matchedTerm);
+  });
+});
+
+// Corpus entries each profile blocks, measured; all are words on the lists as written
+const FALSE_POSITIVE_BUDGET: Record<SafetyProfileId, string[]> = {
+  'little-ones': ['Ghost', 'Storm', 'Stormy', 'Thunder'],
+  kids: ['Ghost'],
+  tweens: [],
+};
+
+describe('false-positive budget', () => {
+  const profiles = Object.keys(SAFETY_PROFILES) as SafetyProfileId[];
+  const corpus = [...ANIMAL_NAMES, ...EVERYDAY_DESCRIPTIONS];
+
+  it.each(profiles)('blocks only the budgeted entries in the everyday corpus (%s)', (profile) => {
+    const blocked = corpus.filter(text => !checkContent(text, { profile }, EMPTY_WORD_LISTS).isAllowed);
+    expect(blocked).toEqual(FALSE_POSITIVE_BUDGET[profile]);
+  });
+
+  // A block whose words aren't in the text as written came from the obfuscation pass
+  it.each(profiles)('adds no blocks through the obfuscation pass (%s)', (profile) => {
+    const normalizedHits = corpus.filter((text) => {
+      const result = checkContent(text, { profile }, EMPTY_WORD_LISTS);
+      return !result.isAllowed && !text.toLowerCase().split(/[^a-z]+/).includes(result.matchedText!);
+    });
+    expect(normalizedHits).toEqual([]);
+  });
+});
@@ -1,32 +1,55 @@
 // ============================================
 // Kid-Safe Content Filter
-// Ensures all generated content is appropriate for ages 8-11
+// Ensures all generated content is appropriate for the chosen age band
 // ============================================
 
-// Words and phrases that should be blocked in user input
-const BLOCKED_TERMS = [
-  // Violence
-  'kill', 'killing', 'dead', 'death', 'die', 'dying', 'murder', 'blood', 'bloody',
-  'weapon', 'gun', 'knife', 'sword', 'fight', 'fighting', 'war', 'battle',
-  'hurt', 'attack', 'attacking', 'destroy', 'explosion', 'bomb',
-  
-  // Scary
-  'scary', 'horror', 'monster', 'demon', 'devil', 'evil', 'nightmare', 'haunted',
-  'ghost', 'zombie', 'vampire', 'skeleton', 'creepy', 'terrifying', 'frightening',
-  
-  // Inappropriate
-  'naked', 'nude', 'sexy', 'kiss', 'kissing', 'romantic', 'love', 'dating',
-  'boyfriend', 'girlfriend', 'married', 'wedding',
-  
+import { CustomWordLists, SafetyProfileId, Settings } from '../types';
+
+// Words and phrases that should be blocked in user input, by category.
+// Phrases match word by word, each word also in its plural/-ing/-ed forms.
+const BLOCKED_TERMS: Record<TermCategory, string[]> = {
+  violence: [
+    'kill', 'killing', 'dead', 'death', 'die', 'dying', 'murder', 'blood', 'bloody',
+    'weapon', 'gun', 'knife', 'sword', 'fight', 'fighting', 'war', 'battle',
+    'hurt', 'attack', 'attacking', 'destroy', 'explosion', 'bomb',
+    'beat up', 'blow up',
+  ],
+
+  scary: [
+    'scary', 'horror', 'monster', 'demon', 'devil', 'evil', 'nightmare', 'haunted',
+    'ghost', 'zombie', 'vampire', 'skeleton', 'creepy', 'terrifying', 'frightening',
+  ],
+
+  inappropriate: [
+    'naked', 'nude', 'sexy', 'kiss', 'kissing', 'romantic', 'love', 'dating',
+    'boyfriend', 'girlfriend', 'married', 'wedding', 'shut up',
+  ],
+
   // Negative emotions (when excessive)
-  'hate', 'hating', 'angry', 'furious', 'rage', 'crying', 'sad', 'depressed',
-  
-  // Substances
-  'alcohol', 'beer', 'wine', 'drunk', 'smoke', 'smoking', 'drugs',
+  negativeEmotions: [
+    'hate', 'hating', 'angry', 'furious', 'rage', 'crying', 'sad', 'depressed',
+  ],
+
+  substances: [
+    'alcohol', 'beer', 'wine', 'drunk', 'smoke', 'smoking', 'drugs',
+  ],
+};
+
+// Words that are always fine, even when they look like a blocked term
+// (hyphenated entries are kept whole by the tokenizer, e.g. "smoke-grey pony")
+const ALLOWED_TERMS = [
+  'skill', 'skills', 'warm', 'warmth', 'warmly', 'diet', 'glove', 'gloves',
+  'swordfish', 'sadie', 'smoky', 'smoke-grey', 'smoke-gray', 'warthog',
+  'blow up balloons', 'blow up a balloon', 'water fight', 'pillow fight', 'snowball fight',
+];
+
+// Mildly negative words; how they're handled depends on the safety profile
+const MILDLY_NEGATIVE_TERMS = [
+  'lost', 'alone', 'dark', 'darkness', 'storm', 'stormy', 'thunder', 'thunderstorm',
 ];
 
 // Friendly replacement suggestions
-const GENTLE_ALTERNATIVES: Record<string, string> = {
+export const GENTLE_ALTERNATIVES: Record<string, string> = {
   'scary': 'exciting',
   'fight': 'play',
   'fighting': 'playing',
@@ -36,45 +59,498 @@ const GENTLE_ALTERNATIVES: Record<string, string> = {
   'hurt': 'bumped',
 };
 
+// ============================================
+// Safety Profiles
+// Age bands that decide how strict the filter and prompt wording are
+// ============================================
+
+export type TermCategory = 'violence' | 'scary' | 'inappropriate' | 'negativeEmotions' | 'substances';
+
+export interface SafetyProfile {
+  id: SafetyProfileId;
+  label: string;
+  description: string;
+  blockedCategories: TermCategory[];
+  // What to do with words like "lost" or "storm"
+  mildlyNegative: 'block' | 'reassure' | 'allow';
+  // Always suggest gentle alternatives when something is blocked
+  showAlternatives: boolean;
+  promptSuffix: string;
+}
+
+export const SAFETY_PROFILES: Record<SafetyProfileId, SafetyProfile> = {
+  'little-ones': {
+    id: 'little-ones',
+    label: 'Little ones 5-7',
+    description: 'Strictest words, sunny scenes only, always suggests friendlier words',
+    blockedCategories: ['violence', 'scary', 'inappropriate', 'negativeEmotions', 'substances'],
+    mildlyNegative: 'block',
+    showAlternatives: true,
+    promptSuffix: `
+IMPORTANT STYLE REQUIREMENTS:
+- Bright, sunny, cheerful daytime scene
+- Simple, soft, rounded shapes like a picture book for young children
+- All animals are smiling and look cuddly and friendly
+- Bright, happy colors with gentle lighting
+- Nothing scary, sad, dark, sharp, or inappropriate
+- Everything feels safe, cozy, and welcoming`,
+  },
+  'kids': {
+    id: 'kids',
+    label: 'Ages 8-11',
+    description: 'The standard filter - happy, friendly stories',
+    blockedCategories: ['violence', 'scary', 'inappropriate', 'negativeEmotions', 'substances'],
+    mildlyNegative: 'allow',
+    showAlternatives: false,
+    promptSuffix: `
+IMPORTANT STYLE REQUIREMENTS:
+- Cozy, warm, and friendly atmosphere
+- Soft, inviting colors with gentle lighting
+- All animals have happy, friendly expressions
+- Safe, wholesome environment suitable for children
+- Storybook illustration style with a magical, dreamy quality
+- No scary, violent, or inappropriate elements
+- Everything feels safe, warm, and welcoming`,
+  },
+  'tweens': {
+    id: 'tweens',
+    label: 'Tweens',
+    description: 'Allows spooky and emotional story words; still no violence or grown-up themes',
+    blockedCategories: ['violence', 'inappropriate', 'substances'],
+    mildlyNegative: 'allow',
+    showAlternatives: false,
+    promptSuffix: `
+IMPORTANT STYLE REQUIREMENTS:
+- Adventurous, friendly storybook atmosphere
+- Expressive characters with rich, lively colors
+- Gentle mystery or excitement is fine, but nothing frightening
+- Wholesome environment suitable for children
+- No violent, gory, or inappropriate elements`,
+  },
+};
+
+export const DEFAULT_SAFETY_PROFILE: SafetyProfileId = 'kids';
+
+export interface ContentFilterOptions {
+  profile?: SafetyProfileId;
+  extraGentleMode?: boolean;
+  // Off skips the built-in lists; the family's own blocked words still apply
+  kidSafeMode?: boolean;
+}
+
+export function getFilterOptions(settings: Settings): ContentFilterOptions {
+  return {
+    profile: settings.safetyProfile,
+    extraGentleMode: settings.extraGentleMode,
+    kidSafeMode: settings.kidSafeMode,
+  };
+}
+
 export interface ContentCheckResult {
   isAllowed: boolean;
   friendlyMessage?: string;
   cleanedText?: string;
+  // The list entry that matched, e.g. "fight" for "fights"
+  matchedTerm?: string;
+  // The words as they were matched in the text, lowercased, e.g. "fights"
+  matchedText?: string;
 }
 
-export function checkContent(text: string, extraGentleMode: boolean = false): ContentCheckResult {
-  const lowerText = text.toLowerCase();
-  
-  // Check for blocked terms
-  for (const term of BLOCKED_TERMS) {
-    if (lowerText.includes(term)) {
-      // In extra gentle mode, provide alternatives if available
-      if (extraGentleMode && GENTLE_ALTERNATIVES[term]) {
-        return {
-          isAllowed: false,
-          friendlyMessage: `Oops! Let's use friendlier words. Instead of "${term}", how about "${GENTLE_ALTERNATIVES[term]}"? 🌟`,
-        };
+// ============================================
+// Tokenizer & Matcher
+// ============================================
+
+const VOWELS = 'aeiou';
+
+// Plural, past, -ing and -er forms of a word ("hate" -> "hates", "hated", "hating", "hater").
+// Without agentForms there are no -er forms, so "kill" leaves "killer whale" alone.
+function inflect(word: string, agentForms = true): string[] {
+  const forms = [word, `${word}s`, `${word}ed`, `${word}ing`];
+  const last = word[word.length - 1];
+
+  // -es only follows a hissing sound ("kiss" -> "kisses"), so "war" doesn't catch "wares"
+  if (/(s|x|z|ch|sh)$/.test(word)) {
+    forms.push(`${word}es`);
+  }
+  if (agentForms) {
+    forms.push(`${word}er`, `${word}ers`);
+  }
+  if (last === 'e') {
+    const stem = word.slice(0, -1);
+    forms.push(`${word}d`, `${stem}ing`);
+    if (agentForms) forms.push(`${word}r`, `${word}rs`);
+  }
+  if (last === 'y' && !VOWELS.includes(word[word.length - 2])) {
+    const stem = word.slice(0, -1);
+    forms.push(`${stem}ies`, `${stem}ied`);
+  }
+  // Short consonant-vowel-consonant words double the last letter ("gun" -> "gunning")
+  if (
+    word.length <= 4 &&
+    !VOWELS.includes(last) && !'wxy'.includes(last) &&
+    VOWELS.includes(word[word.length - 2]) &&
+    !VOWELS.includes(word[word.length - 3] ?? 'a')
+  ) {
+    forms.push(`${word}${last}ing`, `${word}${last}ed`);
+    if (agentForms) forms.push(`${word}${last}er`);
+  }
+  return forms;
+}
+
+interface TermMatcher {
+  // Inflected single word -> list entry
+  words: Map<string, string>;
+  // Squeezed single-word forms ("kill" -> "kil") for stretched-out spellings
+  squeezed: Map<string, string>;
+  // Each phrase as a list of accepted forms per word
+  phrases: { term: string; words: Set<string>[] }[];
+}
+
+// Terms in noAgentForms don't get -er forms (see inflect)
+function buildMatcher(terms: string[], noAgentForms: Set<string> = new Set()): TermMatcher {
+  const words = new Map<string, string>();
+  const phrases: TermMatcher['phrases'] = [];
+
+  // Exact entries win over another entry's inflected form ("fighting" stays "fighting")
+  for (const term of terms) {
+    if (!term.includes(' ')) words.set(term, term);
+  }
+  for (const term of terms) {
+    if (term.includes(' ')) {
+      phrases.push({ term, words: term.split(' ').map(word => new Set(inflect(word, !noAgentForms.has(term)))) });
+      continue;
+    }
+    for (const form of inflect(term, !noAgentForms.has(term))) {
+      if (!words.has(form)) words.set(form, term);
+    }
+  }
+
+  const squeezed = new Map<string, string>();
+  for (const [form, term] of words) {
+    if (!squeezed.has(squeeze(form))) squeezed.set(squeeze(form), term);
+  }
+  return { words, squeezed, phrases };
+}
+
+// Lowercase words; hyphenated words are split unless allowlisted as a whole
+function tokenize(text: string, allowed: Set<string>): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().replace(/’/g, "'").match(/[a-z0-9]+(?:['-][a-z0-9]+)*/g) || [];
+
+  for (const match of matches) {
+    const word = match.replace(/'s$/, '');
+    if (word.includes('-') && !allowed.has(word)) {
+      tokens.push(...word.split('-'));
+    } else {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+}
+
+// Blank out tokens covered by allowlisted words and phrases
+function maskAllowed(tokens: string[], allowedPhrases: string[][], allowed: Set<string>): (string | null)[] {
+  const masked: (string | null)[] = tokens.map(token => (allowed.has(token) ? null : token));
+
+  for (const phrase of allowedPhrases) {
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+      if (phrase.every((word, j) => tokens[i + j] === word)) {
+        for (let j = 0; j < phrase.length; j++) masked[i + j] = null;
+      }
+    }
+  }
+  return masked;
+}
+
+interface TermMatch {
+  term: string;
+  token: string;
+}
+
+function findMatch(tokens: (string | null)[], matcher: TermMatcher): TermMatch | null {
+  for (const token of tokens) {
+    const term = token && matcher.words.get(token);
+    if (token && term) return { term, token };
+  }
+
+  for (const phrase of matcher.phrases) {
+    for (let i = 0; i + phrase.words.length <= tokens.length; i++) {
+      if (phrase.words.every((forms, j) => forms.has(tokens[i + j] ?? ''))) {
+        return { term: phrase.term, token: tokens.slice(i, i + phrase.words.length).join(' ') };
       }
-      
+    }
+  }
+  return null;
+}
+
+// ============================================
+// Obfuscation Normalizer
+// Second pass that undoes common tricks ("k1ll", "d e a d", "sc4ry",
+// "kiiill", "k.i.l.l", lookalike letters, emoji) before matching.
+//
+// False-positive budget: zero new hits. contentFilter.test.ts runs the whole filter over the
+// 360 pet and farm-animal names and 55 everyday descriptions (with numbers, emoji,
+// "sooo"-style spelling and initials) in contentFilter.corpus.ts, and every block it finds
+// must be a listed word as written. That is why digits only count inside words that also have letters,
+// squeezing repeated letters needs a run of three ("Scarry" is a name,
+// "scaaary" is not), and spaced-out letters need at least three in a row with only spaces between.
+// ============================================
+
+const ZERO_WIDTH = /[\u00AD\u200B-\u200F\u2060\uFEFF]|\uFE0E|\uFE0F/g;
+
+// Cyrillic and Greek letters that look like Latin ones
+const HOMOGLYPHS: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'с': 'c', 'е': 'e', 'ё': 'e', 'н': 'h', 'і': 'i', 'ї': 'i', 'ј': 'j',
+  'к': 'k', 'м': 'm', 'о': 'o', 'р': 'p', 'ѕ': 's', 'т': 't', 'у': 'y', 'х': 'x', 'ԁ': 'd',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p',
+  'τ': 't', 'υ': 'u', 'χ': 'x', 'ω': 'w',
+};
+
+// Emoji used in place of a blocked word
+const EMOJI_WORDS: Record<string, string> = {
+  '🔪': 'knife', '🗡': 'knife', '🔫': 'gun', '⚔': 'sword', '💣': 'bomb', '💥': 'explosion',
+  '🩸': 'blood', '💀': 'dead', '☠': 'dead', '⚰': 'death', '🪦': 'dead',
+  '👻': 'ghost', '🧟': 'zombie', '🧛': 'vampire', '👹': 'monster', '👺': 'monster', '😈': 'devil', '👿': 'devil',
+  '💋': 'kiss', '😘': 'kiss', '💍': 'married', '💒': 'wedding',
+  '🍺': 'beer', '🍻': 'beer', '🍷': 'wine', '🥃': 'alcohol', '🍸': 'alcohol', '🚬': 'smoking', '💊': 'drugs', '💉': 'drugs',
+  '😡': 'furious', '🤬': 'furious', '😭': 'crying',
+};
+const EMOJI_PATTERN = new RegExp(Object.keys(EMOJI_WORDS).join('|'), 'gu');
+
+// Digits that stand in for letters ("1" could be either "i" or "l")
+const LEET_DIGITS: Record<string, string[]> = {
+  '0': ['o'], '1': ['i', 'l'], '3': ['e'], '4': ['a'], '5': ['s'], '7': ['t'], '8': ['b'], '9': ['g'],
+};
+const MAX_LEET_VARIANTS = 8;
+
+interface NormalizedToken {
+  forms: string[];
+  // Had a run of 3+ repeated letters, so also match its squeezed form
+  squeeze: boolean;
+}
+
+// Lowercase plain letters: emoji become words, accents and lookalikes fold to a-z
+function foldCharacters(text: string): string {
+  const words = text
+    .replace(ZERO_WIDTH, '')
+    .replace(EMOJI_PATTERN, (emoji) => ` ${EMOJI_WORDS[emoji]} `)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+  return Array.from(words, ch => HOMOGLYPHS[ch] ?? ch).join('');
+}
+
+// "kiiilll" -> "kil"; list entries are compared in the same squeezed form
+function squeeze(word: string): string {
+  return word.replace(/(.)\1+/g, '$1');
+}
+
+function leetVariants(word: string): string[] {
+  let variants = [''];
+  for (const ch of word) {
+    const options = LEET_DIGITS[ch] ?? [ch];
+    variants = variants.flatMap(v => options.map(o => v + o)).slice(0, MAX_LEET_VARIANTS);
+  }
+  return variants;
+}
+
+function normalizeToken(word: string): NormalizedToken {
+  const forms = /[a-z]/.test(word) && /\d/.test(word) ? leetVariants(word) : [word];
+  return { forms, squeeze: /([a-z0-9])\1\1/.test(word) };
+}
+
+function tokenizeObfuscated(text: string): NormalizedToken[] {
+  const cleaned = foldCharacters(text)
+    // Symbols used as letters: "k!ll", "he|l", "$c@ry"
+    .replace(/(?<=[a-z])!(?=[a-z])/g, 'i')
+    .replace(/(?<=[a-z])\|(?=[a-z])/g, 'l')
+    .replace(/@(?=[a-z0-9])|(?<=[a-z0-9])@/g, 'a')
+    .replace(/\$(?=[a-z0-9])|(?<=[a-z0-9])\$/g, 's')
+    // Punctuation inside a word: "k.i.l.l", "de-ad", "sc*ry"
+    .replace(/(?<=[a-z0-9])[.\-_*~'’]+(?=[a-z0-9])/g, '');
+
+  const matches = [...cleaned.matchAll(/[a-z0-9]+/g)];
+  const words = matches.map(match => match[0]);
+  const tokens = words.map(normalizeToken);
+
+  // Spaced-out letters: "d e a d" -> "dead" (every run of 3+ inside, so "a d e a d" works too).
+  // Only whitespace joins them, so a list like "a, b, c, d, e, a, d" stays apart.
+  let start = 0;
+  for (let i = 0; i <= words.length; i++) {
+    const single = i < words.length && words[i].length === 1;
+    if (single && (i === start || /^\s+$/.test(cleaned.slice(matches[i - 1].index + 1, matches[i].index)))) continue;
+    for (let from = start; from < i; from++) {
+      for (let to = from + 3; to <= i; to++) {
+        tokens.push(normalizeToken(words.slice(from, to).join('')));
+      }
+    }
+    start = single ? i : i + 1;
+  }
+  return tokens;
+}
+
+function maskAllowedForms(tokens: NormalizedToken[], allowedPhrases: string[][], allowed: Set<string>): (NormalizedToken | null)[] {
+  const masked = maskAllowed(tokens.map(token => token.forms[0]), allowedPhrases, allowed);
+  return tokens.map((token, i) =>
+    masked[i] === null || token.forms.some(form => allowed.has(form)) ? null : token
+  );
+}
+
+function findObfuscatedMatch(tokens: (NormalizedToken | null)[], matcher: TermMatcher): TermMatch | null {
+  for (const token of tokens) {
+    if (!token) continue;
+    for (const form of token.forms) {
+      const term = matcher.words.get(form) || (token.squeeze ? matcher.squeezed.get(squeeze(form)) : undefined);
+      if (term) return { term, token: form };
+    }
+  }
+
+  for (const phrase of matcher.phrases) {
+    for (let i = 0; i + phrase.words.length <= tokens.length; i++) {
+      if (phrase.words.every((forms, j) => tokens[i + j]?.forms.some(form => forms.has(form)))) {
+        return { term: phrase.term, token: tokens.slice(i, i + phrase.words.length).map(t => t!.forms[0]).join(' ') };
+      }
+    }
+  }
+  return null;
+}
+
+// ============================================
+// Family Word Lists
+// Parent-edited additions merged with the built-in lists at runtime
+// ============================================
+
+export const EMPTY_WORD_LISTS: CustomWordLists = {
+  blocked: [],
+  allowed: [],
+  alternatives: {},
+};
+
+interface CompiledFilter {
+  lists: CustomWordLists;
+  // Blocked matchers keyed by the profile's category list
+  blocked: Map<string, TermMatcher>;
+  allowedWords: Set<string>;
+  allowedPhrases: string[][];
+  alternatives: Record<string, string>;
+}
+
+let activeWordLists: CustomWordLists = EMPTY_WORD_LISTS;
+let compiledFilter: CompiledFilter | null = null;
+
+// Lowercase, trimmed, single-spaced - the form lists are stored and matched in
+export function normalizeTerm(term: string): string {
+  return term.toLowerCase().replace(/’/g, "'").replace(/\s+/g, ' ').trim();
+}
+
+// Called by the app whenever the family lists load or change
+export function setCustomWordLists(lists: CustomWordLists): void {
+  activeWordLists = lists;
+}
+
+export function getCustomWordLists(): CustomWordLists {
+  return activeWordLists;
+}
+
+function compileFilter(lists: CustomWordLists): CompiledFilter {
+  if (compiledFilter?.lists === lists) return compiledFilter;
+
+  const allowedTerms = [...ALLOWED_TERMS, ...lists.allowed.map(normalizeTerm)].filter(Boolean);
+  const allowedWords = new Set(
+    allowedTerms.filter(term => !term.includes(' ')).flatMap(term => inflect(term))
+  );
+
+  compiledFilter = {
+    lists,
+    blocked: new Map(),
+    allowedWords,
+    allowedPhrases: allowedTerms.filter(term => term.includes(' ')).map(term => term.split(' ')),
+    alternatives: { ...GENTLE_ALTERNATIVES, ...lists.alternatives },
+  };
+  return compiledFilter;
+}
+
+function getBlockedMatcher(filter: CompiledFilter, categories: TermCategory[]): TermMatcher {
+  const key = categories.join(',');
+  let matcher = filter.blocked.get(key);
+  if (!matcher) {
+    // -er forms of violence words are mostly names and animals ("killer whale", "Gunner"), so they're left out
+    matcher = buildMatcher([
+      ...categories.flatMap(category => BLOCKED_TERMS[category]),
+      ...filter.lists.blocked.map(normalizeTerm),
+    ].filter(Boolean), new Set(BLOCKED_TERMS.violence));
+    filter.blocked.set(key, matcher);
+  }
+  return matcher;
+}
+
+const MILDLY_NEGATIVE_MATCHER = buildMatcher(MILDLY_NEGATIVE_TERMS);
+
+export function checkContent(
+  text: string,
+  options: ContentFilterOptions = {},
+  wordLists: CustomWordLists = activeWordLists
+): ContentCheckResult {
+  const { profile = DEFAULT_SAFETY_PROFILE, extraGentleMode = false, kidSafeMode = true } = options;
+  const safetyProfile = SAFETY_PROFILES[profile];
+  const filter = compileFilter(wordLists);
+  const tokens = maskAllowed(tokenize(text, filter.allowedWords), filter.allowedPhrases, filter.allowedWords);
+  const obfuscated = maskAllowedForms(tokenizeObfuscated(text), filter.allowedPhrases, filter.allowedWords);
+  const categories = kidSafeMode ? safetyProfile.blockedCategories : [];
+
+  // Check for blocked terms
+  const blockedMatcher = getBlockedMatcher(filter, categories);
+  const blocked = findMatch(tokens, blockedMatcher) || findObfuscatedMatch(obfuscated, blockedMatcher);
+  if (blocked) {
+    const alternative = filter.alternatives[blocked.token] || filter.alternatives[blocked.term];
+
+    // In extra gentle mode (or for little ones), provide alternatives if available
+    if ((extraGentleMode || safetyProfile.showAlternatives) && alternative) {
       return {
         isAllowed: false,
-        friendlyMessage: `Hmm, let's keep our stories happy and friendly! Try describing something nice that could happen instead. 🌈`,
+        friendlyMessage: `Oops! Let's use friendlier words. Instead of "${blocked.token}", how about "${alternative}"? 🌟`,
+        matchedTerm: blocked.term,
+        matchedText: blocked.token,
       };
     }
+
+    return {
+      isAllowed: false,
+      friendlyMessage: `Hmm, let's keep our stories happy and friendly! Try describing something nice that could happen instead. 🌈`,
+      matchedTerm: blocked.term,
+      matchedText: blocked.token,
+    };
+  }
+
+  if (!kidSafeMode) {
+    return { isAllowed: true, cleanedText: text };
   }
 
-  // Additional checks for extra gentle mode
-  if (extraGentleMode) {
+  // Extra gentle mode at least reassures about negative-sounding words
+  const mildlyNegativeHandling = extraGentleMode && safetyProfile.mildlyNegative === 'allow'
+    ? 'reassure'
+    : safetyProfile.mildlyNegative;
+
+  if (mildlyNegativeHandling !== 'allow') {
     // Check for any negative-sounding phrases
-    const mildlyNegative = ['lost', 'alone', 'dark', 'storm', 'thunder'];
-    for (const term of mildlyNegative) {
-      if (lowerText.includes(term)) {
-        return {
-          isAllowed: true,
-          friendlyMessage: `That sounds like an adventure! Remember, everything turns out okay in the end! ✨`,
-          cleanedText: text,
-        };
-      }
+    const mildlyNegative = findMatch(tokens, MILDLY_NEGATIVE_MATCHER)
+      || findObfuscatedMatch(obfuscated, MILDLY_NEGATIVE_MATCHER);
+    if (mildlyNegative && mildlyNegativeHandling === 'block') {
+      return {
+        isAllowed: false,
+        friendlyMessage: `Let's make it a sunny, happy scene! Try a cheerful word instead of "${mildlyNegative.token}" ☀️`,
+        matchedTerm: mildlyNegative.term,
+        matchedText: mildlyNegative.token,
+      };
+    }
+    if (mildlyNegative) {
+      return {
+        isAllowed: true,
+        friendlyMessage: `That sounds like an adventure! Remember, everything turns out okay in the end! ✨`,
+        cleanedText: text,
+        matchedTerm: mildlyNegative.term,
+        matchedText: mildlyNegative.token,
+      };
     }
   }
 
@@ -84,21 +560,18 @@ export function checkContent(text: string, extraGentleMode: boolean = false): Co
   };
 }
 
-// Build the kid-safe prompt modifier
-export function buildKidSafePromptSuffix(): string {
-  return `
-IMPORTANT STYLE REQUIREMENTS:
-- Cozy, warm, and friendly atmosphere
-- Soft, inviting colors with gentle lighting
-- All animals have happy, friendly expressions
-- Safe, wholesome environment suitable for children
-- Storybook illustration style with a magical, dreamy quality
-- No scary, violent, or inappropriate elements
-- Everything feels safe, warm, and welcoming`;
+// Build the kid-safe prompt modifier for a safety profile
+export function buildKidSafePromptSuffix(profile: SafetyProfileId = DEFAULT_SAFETY_PROFILE): string {
+  return SAFETY_PROFILES[profile].promptSuffix;
+}
+
+// Prompt modifier for the current settings - nothing when Kid-Safe Mode is off
+export function buildPromptSuffixForSettings(settings: Settings): string {
+  return settings.kidSafeMode ? buildKidSafePromptSuffix(settings.safetyProfile) : '';
 }
 
 // Validate animal name
-export function validateAnimalName(name: string): ContentCheckResult {
+export function validateAnimalName(name: string, options: ContentFilterOptions = {}): ContentCheckResult {
   if (!name || name.trim().length === 0) {
     return {
       isAllowed: false,
@@ -113,11 +586,11 @@ export function validateAnimalName(name: string): ContentCheckResult {
     };
   }
 
-  return checkContent(name);
+  return checkContent(name, options);
 }
 
 // Validate scene description
-export function validateSceneDescription(description: string): ContentCheckResult {
+export function validateSceneDescription(description: string, options: ContentFilterOptions = {}): ContentCheckResult {
   if (!description || description.trim().length === 0) {
     return {
       isAllowed: false,
@@ -132,5 +605,5 @@ export function validateSceneDescription(description: string): ContentCheckResul
     };
   }
 
-  return checkContent(description);
+  return checkContent(description, options);
 }
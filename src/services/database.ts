@@ -4,7 +4,18 @@
 // ============================================
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Animal, Scene, Settings } from '../types';
+import {
+  Animal,
+  CachedImages,
+  CustomWordLists,
+  ErrorLogEntry,
+  FilterLogEntry,
+  Scene,
+  Settings,
+  UsageEntry,
+} from '../types';
+import { EMPTY_WORD_LISTS, getFilterOptions } from './contentFilter';
+import { validateAnimal, validateScene } from './validation';
 
 interface StoryStudioDB extends DBSchema {
   animals: {
@@ -21,10 +32,34 @@ interface StoryStudioDB extends DBSchema {
     key: string;
     value: Settings;
   };
+  wordLists: {
+    key: string;
+    value: CustomWordLists;
+  };
+  filterLog: {
+    key: number;
+    value: FilterLogEntry;
+    indexes: { 'by-timestamp': number };
+  };
+  errorLog: {
+    key: number;
+    value: ErrorLogEntry;
+    indexes: { 'by-timestamp': number };
+  };
+  usage: {
+    key: number;
+    value: UsageEntry;
+    indexes: { 'by-timestamp': number };
+  };
+  imageCache: {
+    key: string;
+    value: CachedImages;
+    indexes: { 'by-createdAt': number };
+  };
 }
 
 const DB_NAME = 'rylans-story-studio';
-const DB_VERSION = 1;
+const DB_VERSION = 7;
 
 let dbInstance: IDBPDatabase<StoryStudioDB> | null = null;
 
@@ -32,7 +67,7 @@ export async function getDB(): Promise<IDBPDatabase<StoryStudioDB>> {
   if (dbInstance) return dbInstance;
 
   dbInstance = await openDB<StoryStudioDB>(DB_NAME, DB_VERSION, {
-    upgrade(db) {
+    upgrade(db, oldVersion, _newVersion, transaction) {
       // Animals store
       if (!db.objectStoreNames.contains('animals')) {
         const animalStore = db.createObjectStore('animals', { keyPath: 'id' });
@@ -49,6 +84,43 @@ export async function getDB(): Promise<IDBPDatabase<StoryStudioDB>> {
       if (!db.objectStoreNames.contains('settings')) {
         db.createObjectStore('settings');
       }
+
+      // Family word lists store (v2)
+      if (!db.objectStoreNames.contains('wordLists')) {
+        db.createObjectStore('wordLists');
+      }
+
+      // Filter log store (v3)
+      if (!db.objectStoreNames.contains('filterLog')) {
+        const logStore = db.createObjectStore('filterLog', { keyPath: 'id', autoIncrement: true });
+        logStore.createIndex('by-timestamp', 'timestamp');
+      }
+
+      // Generation error log store (v4)
+      if (!db.objectStoreNames.contains('errorLog')) {
+        const errorStore = db.createObjectStore('errorLog', { keyPath: 'id', autoIncrement: true });
+        errorStore.createIndex('by-timestamp', 'timestamp');
+      }
+
+      // Usage ledger store (v5)
+      if (!db.objectStoreNames.contains('usage')) {
+        const usageStore = db.createObjectStore('usage', { keyPath: 'id', autoIncrement: true });
+        usageStore.createIndex('by-timestamp', 'timestamp');
+      }
+
+      // Picture cache store (v6)
+      if (!db.objectStoreNames.contains('imageCache')) {
+        const cacheStore = db.createObjectStore('imageCache', { keyPath: 'key' });
+        cacheStore.createIndex('by-createdAt', 'createdAt');
+      }
+
+      // Provider choice (v7): the old 'dall-e-3' default was never picked by anyone
+      if (oldVersion > 0 && oldVersion < 7) {
+        const settingsStore = transaction.objectStore('settings');
+        settingsStore.get('main').then((settings) => {
+          if (settings) return settingsStore.put(migrateSettings(settings), 'main');
+        });
+      }
     },
   });
 
@@ -110,16 +182,34 @@ export async function deleteScene(id: string): Promise<void> {
 // ============================================
 
 const DEFAULT_SETTINGS: Settings = {
-  imageModel: 'dall-e-3',
+  imageModel: 'auto',
+  imageQuality: 'standard',
   imageCount: 4,
   kidSafeMode: true,
   extraGentleMode: false,
+  safetyProfile: 'kids',
+  limits: {
+    imagesPerDay: 0,
+    scenesPerDay: 0,
+    allowedHours: null,
+  },
+  reuseIdenticalPictures: true,
+  imageStorage: {
+    format: 'webp',
+    quality: 0.85,
+  },
 };
 
+// Settings saved before the model picker existed all say 'dall-e-3', which used to be ignored
+function migrateSettings(settings: Settings): Settings {
+  return settings.imageModel === 'dall-e-3' ? { ...settings, imageModel: 'auto' } : settings;
+}
+
 export async function getSettings(): Promise<Settings> {
   const db = await getDB();
   const settings = await db.get('settings', 'main');
-  return settings || DEFAULT_SETTINGS;
+  // Fill in fields added after the settings were first saved
+  return { ...DEFAULT_SETTINGS, ...settings };
 }
 
 export async function saveSettings(settings: Settings): Promise<void> {
@@ -127,6 +217,122 @@ export async function saveSettings(settings: Settings): Promise<void> {
   await db.put('settings', settings, 'main');
 }
 
+// ============================================
+// Word List Operations
+// ============================================
+
+export async function getWordLists(): Promise<CustomWordLists> {
+  const db = await getDB();
+  const lists = await db.get('wordLists', 'main');
+  return lists || EMPTY_WORD_LISTS;
+}
+
+export async function saveWordLists(lists: CustomWordLists): Promise<void> {
+  const db = await getDB();
+  await db.put('wordLists', lists, 'main');
+}
+
+// ============================================
+// Filter Log Operations
+// ============================================
+
+export async function addFilterLogEntry(entry: FilterLogEntry): Promise<void> {
+  const db = await getDB();
+  await db.add('filterLog', entry);
+}
+
+// Entries between two timestamps (inclusive), newest first
+export async function getFilterLog(from = 0, to = Date.now()): Promise<FilterLogEntry[]> {
+  const db = await getDB();
+  const entries = await db.getAllFromIndex('filterLog', 'by-timestamp', IDBKeyRange.bound(from, to));
+  return entries.reverse();
+}
+
+export async function clearFilterLog(): Promise<void> {
+  const db = await getDB();
+  await db.clear('filterLog');
+}
+
+// ============================================
+// Error Log Operations
+// ============================================
+
+const MAX_ERROR_LOG_ENTRIES = 50;
+
+export async function addErrorLogEntry(entry: ErrorLogEntry): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('errorLog', 'readwrite');
+  await tx.store.add(entry);
+
+  // Only the most recent problems are worth keeping
+  const keys = await tx.store.index('by-timestamp').getAllKeys();
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_ERROR_LOG_ENTRIES))) {
+    await tx.store.delete(key);
+  }
+  await tx.done;
+}
+
+// Newest first
+export async function getErrorLog(): Promise<ErrorLogEntry[]> {
+  const db = await getDB();
+  const entries = await db.getAllFromIndex('errorLog', 'by-timestamp');
+  return entries.reverse();
+}
+
+export async function clearErrorLog(): Promise<void> {
+  const db = await getDB();
+  await db.clear('errorLog');
+}
+
+// ============================================
+// Usage Ledger Operations
+// ============================================
+
+export async function addUsageEntry(entry: UsageEntry): Promise<void> {
+  const db = await getDB();
+  await db.add('usage', entry);
+}
+
+// Oldest first, between two timestamps (inclusive)
+export async function getUsage(from = 0, to = Date.now()): Promise<UsageEntry[]> {
+  const db = await getDB();
+  return db.getAllFromIndex('usage', 'by-timestamp', IDBKeyRange.bound(from, to));
+}
+
+export async function clearUsage(): Promise<void> {
+  const db = await getDB();
+  await db.clear('usage');
+}
+
+// ============================================
+// Picture Cache Operations
+// ============================================
+
+// Pictures are big, so only the most recent requests are kept
+const MAX_CACHED_REQUESTS = 12;
+
+export async function getCachedImages(key: string): Promise<CachedImages | undefined> {
+  const db = await getDB();
+  return db.get('imageCache', key);
+}
+
+export async function putCachedImages(entry: CachedImages): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('imageCache', 'readwrite');
+  await tx.store.put(entry);
+
+  const keys = await tx.store.index('by-createdAt').getAllKeys();
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_CACHED_REQUESTS))) {
+    await tx.store.delete(key);
+  }
+  await tx.done;
+}
+
+export async function clearImageCache(): Promise<void> {
+  const db = await getDB();
+  await db.clear('imageCache');
+}
+
 // ============================================
 // Export / Import Operations
 // ============================================
@@ -137,49 +343,74 @@ export interface ExportData {
   animals: Animal[];
   scenes: Scene[];
   settings: Settings;
+  wordLists?: CustomWordLists; // Added in version 2
 }
 
 export async function exportAllData(): Promise<ExportData> {
   const animals = await getAllAnimals();
   const scenes = await getAllScenes();
   const settings = await getSettings();
+  const wordLists = await getWordLists();
 
   // Remove API key from export for safety
   const safeSettings = { ...settings, openaiApiKey: undefined };
 
   return {
-    version: 1,
+    version: 3,
     exportedAt: new Date().toISOString(),
     animals,
     scenes,
     settings: safeSettings,
+    wordLists,
   };
 }
 
-export async function importAllData(data: ExportData): Promise<void> {
+// Records left out of an import because their words wouldn't pass the filter
+export interface ImportReport {
+  skippedAnimals: string[];
+  skippedScenes: string[];
+}
+
+export async function importAllData(data: ExportData): Promise<ImportReport> {
   const db = await getDB();
+  const existingSettings = await getSettings();
+
+  // A backup goes through the same checks as saving, with the filter settings in force now
+  const options = getFilterOptions(existingSettings);
+  const animals = data.animals.filter(animal => validateAnimal(animal, options).isAllowed);
+  const scenes = data.scenes.filter(scene => validateScene(scene, options).isAllowed);
 
   // Import animals
   const animalTx = db.transaction('animals', 'readwrite');
-  for (const animal of data.animals) {
+  for (const animal of animals) {
     await animalTx.store.put(animal);
   }
   await animalTx.done;
 
   // Import scenes
   const sceneTx = db.transaction('scenes', 'readwrite');
-  for (const scene of data.scenes) {
+  for (const scene of scenes) {
     await sceneTx.store.put(scene);
   }
   await sceneTx.done;
 
   // Import settings (preserve existing API key)
-  const existingSettings = await getSettings();
   const newSettings = {
-    ...data.settings,
+    // Backups from before version 3 carry the old unused model default
+    ...(data.version < 3 ? migrateSettings(data.settings) : data.settings),
     openaiApiKey: existingSettings.openaiApiKey, // Keep existing key
   };
   await saveSettings(newSettings);
+
+  // Import word lists (older exports don't have them)
+  if (data.wordLists) {
+    await saveWordLists(data.wordLists);
+  }
+
+  return {
+    skippedAnimals: data.animals.filter(animal => !animals.includes(animal)).map(animal => animal.name),
+    skippedScenes: data.scenes.filter(scene => !scenes.includes(scene)).map(scene => scene.title),
+  };
 }
 
 export async function clearAllData(): Promise<void> {
@@ -196,4 +427,13 @@ export async function clearAllData(): Promise<void> {
   const settingsTx = db.transaction('settings', 'readwrite');
   await settingsTx.store.clear();
   await settingsTx.done;
+
+  const wordListsTx = db.transaction('wordLists', 'readwrite');
+  await wordListsTx.store.clear();
+  await wordListsTx.done;
+
+  await clearFilterLog();
+  await clearErrorLog();
+  await clearUsage();
+  await clearImageCache();
 }
@@ -0,0 +1,63 @@
+// ============================================
+// Device Token
+// Identifies this device to the server. Unlocking with the family passcode swaps
+// the random id for a signed token; until then the random id is only used for counting.
+// ============================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { DeviceInfo, DevicesResponse, DeviceTokenResponse } from '../types';
+
+const DEVICE_TOKEN_KEY = 'rylans-device-token';
+
+export function getDeviceToken(): string {
+  let token = localStorage.getItem(DEVICE_TOKEN_KEY);
+  if (!token) {
+    token = uuidv4();
+    localStorage.setItem(DEVICE_TOKEN_KEY, token);
+  }
+  return token;
+}
+
+// Signed tokens look like "<device id>.<signature>"
+export function isDeviceUnlocked(): boolean {
+  return getDeviceToken().includes('.');
+}
+
+// Back to a fresh random id, e.g. after this device was revoked
+export function forgetDeviceToken(): void {
+  localStorage.removeItem(DEVICE_TOKEN_KEY);
+}
+
+async function readError(response: Response): Promise<Error> {
+  const data = await response.json().catch(() => ({}));
+  return new Error(data.error || `Request failed (${response.status})`);
+}
+
+export async function unlockDevice(passcode: string, name: string): Promise<DeviceInfo> {
+  const response = await fetch('/api/device-token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ passcode, name }),
+  });
+  if (!response.ok) throw await readError(response);
+
+  const { token, device }: DeviceTokenResponse = await response.json();
+  localStorage.setItem(DEVICE_TOKEN_KEY, token);
+  return device;
+}
+
+export async function fetchDevices(): Promise<DevicesResponse> {
+  const response = await fetch('/api/devices', { headers: { 'X-Device-Token': getDeviceToken() } });
+  if (response.status === 401) throw new Error('This device isn\'t unlocked yet.');
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+export async function revokeDevice(id: string): Promise<DevicesResponse> {
+  const response = await fetch(`/api/devices?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: { 'X-Device-Token': getDeviceToken() },
+  });
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
@@ -0,0 +1,84 @@
+// ============================================
+// Diagnostics Service
+// Reads /api/status and explains it in words a parent can act on
+// ============================================
+
+import { ApiErrorCode, ProviderStatus, StatusResponse } from '../types';
+import { getDeviceToken } from './device';
+
+export type DiagnosisLevel = 'ok' | 'warning' | 'problem' | 'off';
+
+export interface ProviderDiagnosis {
+  level: DiagnosisLevel;
+  explanation: string;
+}
+
+// What each error code usually means and what to do about it
+const CODE_EXPLANATIONS: Record<ApiErrorCode, string> = {
+  RATE_LIMITED: 'is getting too many requests right now. Wait a minute; if it keeps happening, the account\'s rate limit may be too low.',
+  CONTENT_REJECTED: 'refused a prompt with its own safety filter. Nothing is broken, but that story needs different words.',
+  AUTH: 'rejected the API key. It may be mistyped, revoked, or missing access to this model. Check the key in the Vercel project settings.',
+  QUOTA: 'is out of credit or over its spending limit. Add billing or raise the limit in the provider\'s dashboard.',
+  TIMEOUT: 'took too long to answer. This is usually temporary.',
+  PROVIDER_DOWN: 'could not be reached or had a server problem. This is usually temporary; the app falls back to the next provider.',
+  BAD_REQUEST: 'did not understand a request. Updating the app may help.',
+  BUDGET_EXHAUSTED: 'was not asked because a daily limit or the allowed hours stopped the request.',
+};
+
+// Connection tests use the API keys, so they need an unlocked device
+const STATUS_LOCKED = 'Unlock this device under "Family Access" to run the connection test.';
+
+// Shown when /api/status itself can't be reached
+const STATUS_UNREACHABLE =
+  'Couldn\'t reach the app\'s server functions. If you\'re running locally, restart `npm run dev` and check its terminal for errors; otherwise check the deployment in Vercel.';
+
+// Throws with a message meant for parents
+export async function fetchStatus(runSelfTest: boolean): Promise<StatusResponse> {
+  const response = await fetch(`/api/status${runSelfTest ? '?selfTest=1' : ''}`, {
+    headers: { 'X-Device-Token': getDeviceToken() },
+  }).catch(() => null);
+
+  if (response?.status === 401) {
+    throw new Error(STATUS_LOCKED);
+  }
+  if (!response?.ok) {
+    throw new Error(STATUS_UNREACHABLE);
+  }
+  return response.json().catch(() => {
+    throw new Error(STATUS_UNREACHABLE);
+  });
+}
+
+export function diagnoseProvider(status: ProviderStatus): ProviderDiagnosis {
+  if (!status.configured) {
+    return {
+      level: 'off',
+      explanation: `Not set up. Add ${status.requiredEnv.join(' and ')} to the Vercel environment variables to use it.`,
+    };
+  }
+
+  if (status.selfTest && !status.selfTest.ok) {
+    const code = status.selfTest.code || 'PROVIDER_DOWN';
+    return { level: 'problem', explanation: `The self-test failed: ${status.label} ${CODE_EXPLANATIONS[code]}` };
+  }
+
+  if (status.circuitOpen) {
+    return {
+      level: 'problem',
+      explanation: `Failed several times in a row, so it's being skipped for a minute. ${status.label} ${CODE_EXPLANATIONS[status.lastError?.code || 'PROVIDER_DOWN']}`,
+    };
+  }
+
+  // A failure more recent than the last success is still worth mentioning
+  if (status.lastError && (status.lastFailureAt || 0) > (status.lastSuccessAt || 0)) {
+    return { level: 'warning', explanation: `Its last picture failed: ${status.label} ${CODE_EXPLANATIONS[status.lastError.code]}` };
+  }
+
+  if (status.selfTest) {
+    return { level: 'ok', explanation: `Working. Answered in ${status.selfTest.latencyMs} ms.` };
+  }
+  return {
+    level: 'ok',
+    explanation: status.lastSuccessAt ? 'Working.' : 'Set up. Run the connection test to make sure the key works.',
+  };
+}
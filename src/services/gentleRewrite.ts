@@ -0,0 +1,187 @@
+// ============================================
+// Gentle Rewrite Engine
+// Turns a blocked description into a friendly suggestion
+// ("the horses fight over hay" -> "the horses play a game over hay")
+// ============================================
+
+import {
+  checkContent,
+  ContentFilterOptions,
+  getCustomWordLists,
+  GENTLE_ALTERNATIVES,
+  normalizeTerm,
+} from './contentFilter';
+
+type Suffix = '' | 's' | 'ing' | 'ed';
+
+// Whole phrases that read better rewritten together; checked before single words
+const PHRASE_REWRITES: { pattern: RegExp; base: string; rest: string }[] = [
+  { pattern: /\bfight(s|ing)? (over|about|for)\b/gi, base: 'play', rest: ' a game $2' },
+  { pattern: /\bfight(s|ing)? (with|against)\b/gi, base: 'play', rest: ' tag with' },
+  { pattern: /\bbeat(s|ing)? (?:up|them up|him up|her up)\b/gi, base: 'tickle', rest: '' },
+  { pattern: /\bblow(s|ing)? up\b/gi, base: 'light', rest: ' up' },
+  { pattern: /\bscared to death\b/gi, base: 'super surprised', rest: '' },
+];
+
+// Blocked word -> friendly stand-in (verbs are conjugated to match, e.g. "attacks" -> "chases")
+const WORD_REWRITES: Record<string, string> = {
+  ...GENTLE_ALTERNATIVES,
+  'hurts': 'bumps',
+  'hurting': 'bumping',
+  // Violence
+  'kill': 'tickle',
+  'killing': 'tickling',
+  'dead': 'fast asleep',
+  'death': 'a long nap',
+  'die': 'snooze',
+  'dying': 'very sleepy',
+  'murder': 'surprise',
+  'blood': 'berry',
+  'bloody': 'muddy',
+  'weapon': 'toy',
+  'gun': 'water squirter',
+  'knife': 'spoon',
+  'sword': 'stick',
+  'war': 'big race',
+  'battle': 'contest',
+  'attack': 'chase',
+  'attacking': 'chasing',
+  'destroy': 'knock over',
+  'explosion': 'burst of confetti',
+  'bomb': 'balloon',
+  // Scary
+  'horror': 'surprise',
+  'monster': 'friendly creature',
+  'demon': 'mischief-maker',
+  'devil': 'mischief-maker',
+  'evil': 'mischievous',
+  'nightmare': 'silly dream',
+  'haunted': 'mysterious',
+  'ghost': 'glowing friend',
+  'zombie': 'sleepy friend',
+  'vampire': 'bat',
+  'skeleton': 'scarecrow',
+  'creepy': 'mysterious',
+  'terrifying': 'surprising',
+  'frightening': 'surprising',
+  // Inappropriate
+  'kiss': 'nuzzle',
+  'kissing': 'nuzzling',
+  'romantic': 'sweet',
+  'love': 'adore',
+  'dating': 'playing with',
+  'boyfriend': 'best friend',
+  'girlfriend': 'best friend',
+  'married': 'best friends',
+  'wedding': 'party',
+  'shut up': 'hush',
+  // Negative emotions
+  'hate': 'dislike',
+  'hating': 'disliking',
+  'furious': 'grumpy',
+  'rage': 'huff',
+  'depressed': 'a little blue',
+  // Substances
+  'alcohol': 'apple juice',
+  'beer': 'root beer',
+  'wine': 'grape juice',
+  'drunk': 'dizzy',
+  'smoke': 'mist',
+  'smoking': 'puffing bubbles',
+  'drugs': 'treats',
+  // Mildly negative (only blocked for little ones)
+  'lost': 'exploring',
+  'alone': 'on an adventure',
+  'dark': 'twinkly',
+  'darkness': 'twilight',
+  'storm': 'rain shower',
+  'stormy': 'breezy',
+  'thunder': 'rumbling clouds',
+  'thunderstorm': 'rain shower',
+};
+
+const MAX_REWRITES = 12;
+
+// "play" + "ing" -> "playing", "chase" + "s" -> "chases"
+function conjugate(word: string, suffix: Suffix): string {
+  if (!suffix) return word;
+  const [first, ...rest] = word.split(' ');
+  let conjugated: string;
+
+  if (suffix === 's') {
+    conjugated = /(s|sh|ch|x)$/.test(first) ? `${first}es`
+      : /[^aeiou]y$/.test(first) ? `${first.slice(0, -1)}ies`
+      : `${first}s`;
+  } else if (suffix === 'ing') {
+    conjugated = /[^e]e$/.test(first) ? `${first.slice(0, -1)}ing` : `${first}ing`;
+  } else {
+    conjugated = first.endsWith('e') ? `${first}d` : `${first}ed`;
+  }
+  return [conjugated, ...rest].join(' ');
+}
+
+// Which ending the child used on the blocked word ("fights" -> "s")
+function suffixOf(matched: string, term: string): Suffix {
+  if (matched === term) return '';
+  if (/ing$/.test(matched)) return 'ing';
+  if (/e?d$/.test(matched)) return 'ed';
+  if (/e?s$/.test(matched)) return 's';
+  return '';
+}
+
+function matchCase(original: string, replacement: string): string {
+  return original[0] === original[0].toUpperCase() && original[0] !== original[0].toLowerCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function applyPhraseRewrites(text: string): string {
+  return PHRASE_REWRITES.reduce((current, { pattern, base, rest }) =>
+    current.replace(pattern, (match, ending: string | undefined, ...groups: unknown[]) => {
+      const suffix: Suffix = ending === 's' ? 's' : ending === 'ing' ? 'ing' : '';
+      const tail = rest.replace('$2', typeof groups[0] === 'string' ? groups[0] : '');
+      return matchCase(match, `${conjugate(base, suffix)}${tail}`);
+    }), text);
+}
+
+// Suggest a version of the text that passes the filter, or null if we can't find one
+export function suggestGentleRewrite(text: string, options: ContentFilterOptions = {}): string | null {
+  const familyAlternatives = getCustomWordLists().alternatives;
+  let rewritten = applyPhraseRewrites(text);
+
+  for (let attempt = 0; attempt < MAX_REWRITES; attempt++) {
+    const result = checkContent(rewritten, options);
+    if (result.isAllowed) {
+      return rewritten === text ? null : rewritten;
+    }
+    if (!result.matchedTerm || !result.matchedText) return null;
+
+    const term = normalizeTerm(result.matchedTerm);
+    const replacement = familyAlternatives[result.matchedText]
+      || familyAlternatives[term]
+      || WORD_REWRITES[result.matchedText]
+      || WORD_REWRITES[term];
+    if (!replacement) return null;
+
+    // Find the words as typed (any case, any spacing between phrase words)
+    const pattern = new RegExp(
+      `(?<!\\w)${result.matchedText.split(' ').map(escapeRegExp).join('\\s+')}(?!\\w)`,
+      'i'
+    );
+    const found = pattern.exec(rewritten);
+    if (!found) return null;
+
+    const suffix = WORD_REWRITES[result.matchedText] || familyAlternatives[result.matchedText]
+      ? ''
+      : suffixOf(result.matchedText, term);
+    rewritten = rewritten.slice(0, found.index)
+      + matchCase(found[0], conjugate(replacement, suffix))
+      + rewritten.slice(found.index + found[0].length);
+  }
+
+  return null;
+}
@@ -0,0 +1,42 @@
+// ============================================
+// Picture Cache
+// Identical requests (same prompt, same reference pictures, same options) get the
+// same pictures back instead of paying for new ones. The key is shared with the server.
+// ============================================
+
+import { CachedImages } from '../types';
+import { getCachedImages } from './database';
+
+export interface CacheKeyParts {
+  prompt: string;
+  textOnlyPrompt?: string;
+  referenceImages: string[];
+  count: number;
+  // Anything else that changes the pictures, e.g. the chosen provider
+  providerOptions?: Record<string, string | undefined>;
+}
+
+// Cached pictures older than this are made fresh
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Reference pictures are hashed on their own so the key doesn't carry megabytes of base64
+export async function computeCacheKey(parts: CacheKeyParts): Promise<string> {
+  const referenceHashes = await Promise.all(parts.referenceImages.map(sha256));
+  return sha256(JSON.stringify({
+    prompt: parts.prompt,
+    textOnlyPrompt: parts.textOnlyPrompt || null,
+    referenceHashes,
+    count: parts.count,
+    providerOptions: parts.providerOptions || {},
+  }));
+}
+
+export async function findCachedImages(key: string, now = Date.now()): Promise<CachedImages | null> {
+  const entry = await getCachedImages(key);
+  return entry && now - entry.createdAt < CACHE_MAX_AGE_MS ? entry : null;
+}
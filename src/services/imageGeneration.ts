@@ -3,46 +3,62 @@
 // Uses Vercel serverless function exclusively
 // ============================================
 
-import { Animal, Location, Settings } from '../types';
-import { buildKidSafePromptSuffix } from './contentFilter';
+import {
+  Animal,
+  ApiErrorBody,
+  ApiErrorCode,
+  ApiErrorReason,
+  AvailableProvider,
+  AvailableProvidersResponse,
+  GenerationStreamEvent,
+  ImageAspect,
+  Location,
+  Settings,
+  UsageEntry,
+  UsageFeature,
+} from '../types';
+import { buildPromptSuffixForSettings } from './contentFilter';
+import { ART_STYLE, LOCATION_DESCRIPTIONS, PORTRAIT_INSTRUCTION, REFERENCE_INSTRUCTION } from './promptTemplates';
+import { checkAllowedHours, checkBudget } from './budget';
+import { addErrorLogEntry, addUsageEntry, putCachedImages } from './database';
+import { getDeviceToken } from './device';
+import { computeCacheKey, findCachedImages } from './imageCache';
+import { compressImage } from '../utils/imageCompression';
+import { shrinkImageForUpload } from '../utils/imageProcessing';
 
 export interface ImageGenerationResult {
   success: boolean;
   images?: string[]; // base64 data URLs
+  // Small copies for grids, same order as images; missing when this browser can't make them
+  thumbnails?: string[];
   error?: string;
+  usedReferenceImages?: boolean;
+  // Stopped by the child; images holds whatever finished first
+  cancelled?: boolean;
+  // Ids of the image providers that made the pictures, e.g. ['gpt-image']
+  providers?: string[];
+  // What actually went wrong, for Parent Mode
+  errorDetail?: ApiErrorBody;
+  // The same pictures as last time, from the cache; nothing new was made
+  cached?: boolean;
 }
 
-// Art style constant - cozy storybook watercolor
-const ART_STYLE = `cozy children's storybook watercolor illustration, warm soft lighting, 
-gentle pastel colors with pops of warmth, friendly inviting atmosphere, 
-hand-painted feel with soft edges, magical dreamy quality, 
-reminiscent of classic children's picture books`;
-
-// Location descriptions for richer prompts
-const LOCATION_DESCRIPTIONS: Record<Location, string> = {
-  'Stable': 'a cozy wooden stable with hay bales, warm lantern light, and comfortable stalls',
-  'Barn': 'a charming red barn with open doors, golden sunlight streaming in, rustic wooden beams',
-  'Pasture': 'a lush green pasture with wildflowers, white wooden fences, and rolling hills',
-  'Meadow': 'a beautiful wildflower meadow with butterflies, soft grass, and gentle sunshine',
-  'Forest Trail': 'a magical forest trail with dappled sunlight through leaves, ferns, and mossy rocks',
-  'Riding Arena': 'a well-kept riding arena with white fences, soft sandy ground, and blue sky',
-  'Winter Field': 'a peaceful snowy field with gentle snowflakes, frost-covered fences, and cozy atmosphere',
-  'River': 'a gentle babbling brook with smooth stones, willow trees, and sparkling water',
-  'Mountain Path': 'a scenic mountain trail with wildflowers, pine trees, and distant peaks',
-  'Cozy Farm': 'a charming farmyard with a cottage, vegetable garden, and friendly atmosphere',
-};
-
 // Build the complete prompt for scene generation
+// With useReferenceImages off, every animal is described by its colors instead of
+// pointing at a reference picture the model will not see
 export function buildScenePrompt(
   animals: Animal[],
   location: Location,
-  userDescription: string
+  userDescription: string,
+  settings: Settings,
+  useReferenceImages: boolean = true
 ): string {
-  const animalDescriptions = animals.map((animal, index) => {
-    const hasImage = animal.portraitDataUrl || animal.stickerDataUrl;
+  let referenceCount = 0;
+  const animalDescriptions = animals.map((animal) => {
+    const hasImage = useReferenceImages && !!(animal.portraitDataUrl || animal.stickerDataUrl);
     const parts = [
       `${animal.name} the ${animal.species.toLowerCase()}`,
-      hasImage ? ` (shown in reference image ${index + 1})` : '',
+      hasImage ? ` (shown in reference image ${++referenceCount})` : '',
       !hasImage ? ` (${animal.colors.primary}` : '',
       !hasImage && animal.colors.secondary ? ` with ${animal.colors.secondary} markings` : '',
       !hasImage && animal.colors.markings ? `, ${animal.colors.markings}` : '',
@@ -54,24 +70,26 @@ export function buildScenePrompt(
   }).join('; ');
 
   const locationDesc = LOCATION_DESCRIPTIONS[location];
-  
+
+  const referenceInstruction = referenceCount > 0
+    ? `\n\n${REFERENCE_INSTRUCTION}`
+    : '';
+
   const prompt = `${ART_STYLE}.
 
 Scene setting: ${locationDesc}.
 
 Characters: ${animalDescriptions}.
 
-What's happening: ${userDescription}
-
-IMPORTANT: Draw the characters to match the reference images provided. Keep their appearance consistent with the references.
+What's happening: ${userDescription}${referenceInstruction}
 
-${buildKidSafePromptSuffix()}`;
+${buildPromptSuffixForSettings(settings)}`;
 
   return prompt;
 }
 
 // Build prompt for animal portrait
-export function buildAnimalPortraitPrompt(animal: Animal): string {
+export function buildAnimalPortraitPrompt(animal: Animal, settings: Settings): string {
   const colorDesc = animal.colors.secondary 
     ? `${animal.colors.primary} with ${animal.colors.secondary} markings`
     : animal.colors.primary;
@@ -86,95 +104,311 @@ Color: ${colorDesc}${markingsDesc}.
 
 ${animal.specialThing ? `Special detail: ${animal.specialThing}.` : ''}
 
-The animal should have a warm, friendly expression and be looking at the viewer.
-Centered composition with soft background.
+${PORTRAIT_INSTRUCTION}
 
-${buildKidSafePromptSuffix()}`;
+${buildPromptSuffixForSettings(settings)}`;
 
   return prompt;
 }
 
+// References are downscaled before upload: a 1024px portrait is ~2MB of base64,
+// close to the server's limit, and the providers don't need that much detail
+const REFERENCE_MAX_SIZE = 768;
+const REFERENCE_MAX_LENGTH = 1_000_000;
+
 // Get reference images from animals (portraits or stickers)
-function getAnimalImages(animals: Animal[]): string[] {
-  return animals
+async function getAnimalImages(animals: Animal[]): Promise<string[]> {
+  const images = animals
     .map(animal => animal.portraitDataUrl || animal.stickerDataUrl)
     .filter((img): img is string => !!img);
+
+  return Promise.all(images.map(image =>
+    shrinkImageForUpload(image, REFERENCE_MAX_SIZE, REFERENCE_MAX_LENGTH).catch((error) => {
+      console.error('Could not shrink reference image:', error);
+      return image;
+    })
+  ));
 }
 
 // ============================================
 // Main Generate Function - Server Only
 // ============================================
+export interface GenerateImagesOptions {
+  referenceImages?: string[];
+  // Fallback prompt for providers that can't take reference images
+  textOnlyPrompt?: string;
+  // Called with each picture as soon as the server sends it
+  onImage?: (image: string, index: number) => void;
+  // Stops the request here, on the server and at the image provider
+  signal?: AbortSignal;
+  // What the pictures are for, in the usage ledger
+  feature?: UsageFeature;
+  // Skip the picture cache and make new ones
+  fresh?: boolean;
+  // Picture shape; square when not given
+  aspect?: ImageAspect;
+}
+
+// Yield each line of a newline-delimited JSON response as it arrives
+async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+
+    if (done) break;
+  }
+  if (buffer.trim()) yield JSON.parse(buffer) as T;
+}
+
 export async function generateImages(
   prompt: string,
-  _settings: Settings,
+  settings: Settings,
   count: number = 4,
-  referenceImages?: string[]
+  options: GenerateImagesOptions = {}
 ): Promise<ImageGenerationResult> {
+  const feature = options.feature || 'scene';
+  const aspect = options.aspect || 'square';
+  const started = Date.now();
+  const usage: UsageEntry = {
+    timestamp: started,
+    feature,
+    providers: [],
+    models: [],
+    images: 0,
+    durationMs: 0,
+    estimatedCost: 0,
+  };
+
   try {
+    const cacheKey = settings.reuseIdenticalPictures
+      ? await computeCacheKey({
+          prompt,
+          textOnlyPrompt: options.textOnlyPrompt,
+          referenceImages: options.referenceImages || [],
+          count,
+          providerOptions: { provider: settings.imageModel, quality: settings.imageQuality, aspect },
+        })
+      : null;
+    // Cached pictures don't count towards the daily limits, but picture hours still apply
+    const outsideHours = checkAllowedHours(settings.limits);
+    if (outsideHours) {
+      return failure(outsideHours);
+    }
+    const cached = cacheKey && !options.fresh ? await findCachedImages(cacheKey) : null;
+    if (cached) {
+      cached.images.forEach((image, index) => options.onImage?.(image, index));
+      return {
+        success: true,
+        images: cached.images,
+        thumbnails: cached.thumbnails,
+        usedReferenceImages: cached.usedReferenceImages,
+        providers: cached.providers,
+        cached: true,
+      };
+    }
+
+    // Parent-set limits are checked here first; the server may enforce its own as well
+    const budget = await checkBudget(settings.limits, feature, count);
+    if (budget.exhausted) {
+      return failure(budget.exhausted);
+    }
+
     const response = await fetch('/api/generate-image', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'X-Device-Token': getDeviceToken() },
       body: JSON.stringify({ 
         prompt, 
-        count,
-        referenceImages: referenceImages || []
+        textOnlyPrompt: options.textOnlyPrompt,
+        count: budget.allowedImages,
+        referenceImages: options.referenceImages || [],
+        feature,
+        provider: settings.imageModel,
+        quality: settings.imageQuality,
+        aspect,
+        // Turning the cache off on this device turns it off on the server too
+        fresh: options.fresh || !settings.reuseIdenticalPictures,
       }),
+      signal: options.signal,
     });
 
-    const data = await response.json();
-
+    // Requests rejected before generation starts come back as plain JSON
     if (!response.ok) {
-      console.error('API Error:', response.status, data);
-      return {
-        success: false,
-        error: friendlyError(data.error || `Error ${response.status}`),
-      };
+      const data = await response.json().catch(() => ({}));
+      return failure({
+        ...data,
+        error: data.error || `HTTP ${response.status}`,
+        code: data.code || codeForStatus(response.status),
+      });
     }
 
-    if (!data.images || data.images.length === 0) {
+    const images: string[] = [];
+    const thumbnails: string[] = [];
+    const usedReferences: boolean[] = [];
+    const providers: string[] = [];
+    let serverCached = false;
+
+    try {
+      for await (const event of readNdjson<GenerationStreamEvent>(response)) {
+        if (event.type === 'image') {
+          // Providers send full-size PNGs; store WebP/JPEG instead, as the parent chose
+          const { image, thumbnail } = await compressImage(event.image, settings.imageStorage);
+          images.push(image);
+          if (thumbnail) thumbnails.push(thumbnail);
+          usedReferences.push(event.usedReferenceImages);
+          if (!providers.includes(event.provider)) providers.push(event.provider);
+          tallyImage(usage, event);
+          options.onImage?.(image, images.length - 1);
+        } else if (event.type === 'done') {
+          serverCached = !!event.cached;
+        } else if (event.type === 'error') {
+          return failure({
+            error: event.error,
+            code: event.code,
+            reason: event.reason,
+            retryAfter: event.retryAfter,
+            provider: event.provider,
+          });
+        }
+      }
+    } catch (error) {
+      // Stopped or cut off part-way: keep the pictures that already arrived
+      if (!options.signal?.aborted && images.length === 0) throw error;
+      recordUsage(usage, started, !!options.signal?.aborted);
       return {
-        success: false,
-        error: 'No images were created. Let\'s try again! 🔄',
+        success: images.length > 0,
+        images,
+        thumbnails: thumbnails.length === images.length ? thumbnails : undefined,
+        usedReferenceImages: usedReferences.every(Boolean),
+        cancelled: !!options.signal?.aborted,
+        providers,
       };
     }
 
-    return {
+    // The stream can also end early (e.g. at maxDuration); whatever arrived still counts
+    if (images.length === 0) {
+      return failure({ error: 'The stream ended without any images', code: 'PROVIDER_DOWN' });
+    }
+
+    const result: ImageGenerationResult = {
       success: true,
-      images: data.images,
+      images,
+      thumbnails: thumbnails.length === images.length ? thumbnails : undefined,
+      usedReferenceImages: usedReferences.every(Boolean),
+      cancelled: !!options.signal?.aborted,
+      providers,
+      cached: serverCached || undefined,
     };
+
+    if (!serverCached) {
+      recordUsage(usage, started, !!options.signal?.aborted);
+    }
+    // Only a complete set is worth showing again
+    if (cacheKey && !result.cancelled && images.length === count) {
+      putCachedImages({
+        key: cacheKey,
+        createdAt: Date.now(),
+        images,
+        thumbnails: result.thumbnails,
+        usedReferenceImages: result.usedReferenceImages!,
+        providers,
+      })
+        .catch((error) => console.error('Picture cache error:', error));
+    }
+    return result;
   } catch (error) {
-    console.error('Fetch error:', error);
-    return {
-      success: false,
-      error: 'Could not connect to the server. Check your internet! 🌐',
-    };
+    if (options.signal?.aborted) {
+      return { success: false, cancelled: true };
+    }
+    const result = failure({ error: `Could not reach the server: ${(error as Error).message}`, code: 'PROVIDER_DOWN' });
+    return { ...result, error: 'Could not connect to the server. Check your internet! 🌐' };
   }
 }
 
-// Convert technical errors to kid-friendly messages
-function friendlyError(error: string): string {
-  if (error.includes('Rate') || error.includes('rate') || error.includes('429')) {
-    return 'Whoa, slow down! Wait a moment and try again ⏰';
-  }
-  if (error.includes('content') || error.includes('safety') || error.includes('policy')) {
-    return 'Let\'s try describing something different! 🌈';
-  }
-  if (error.includes('API key') || error.includes('not configured') || error.includes('auth') || error.includes('401')) {
-    return 'Oops! Something\'s not set up right. Ask Uncle Gavin! 🔧';
+// Add one streamed picture to the generation's ledger entry
+function tallyImage(usage: UsageEntry, event: Extract<GenerationStreamEvent, { type: 'image' }>): void {
+  usage.images++;
+  usage.estimatedCost += event.estimatedCost || 0;
+  if (!usage.providers.includes(event.provider)) usage.providers.push(event.provider);
+  if (event.model && !usage.models.includes(event.model)) usage.models.push(event.model);
+}
+
+// Nothing is recorded when no picture arrived (e.g. stopped straight away), so it costs no scene
+function recordUsage(usage: UsageEntry, started: number, cancelled: boolean): void {
+  if (usage.images === 0) return;
+  addUsageEntry({ ...usage, durationMs: Date.now() - started, cancelled: cancelled || undefined })
+    .catch((error) => console.error('Usage ledger error:', error));
+}
+
+// Kid-friendly messages for every error code the server sends
+const CODE_MESSAGES: Record<ApiErrorCode, string> = {
+  RATE_LIMITED: 'Whoa, slow down! Wait a moment and try again ⏰',
+  CONTENT_REJECTED: 'Hmm, let\'s keep our stories happy and friendly! Try describing something nice instead 🌈',
+  AUTH: 'Oops! Something\'s not set up right. Ask Uncle Gavin! 🔧',
+  QUOTA: 'The magic machine needs more fuel! Ask Uncle Gavin 🔧',
+  TIMEOUT: 'The magic took too long this time. Let\'s try again! ⏳',
+  PROVIDER_DOWN: 'The picture machine is taking a nap. Try again in a little bit! 😴',
+  BAD_REQUEST: 'Something went wrong. Let\'s try again! 🔄',
+  BUDGET_EXHAUSTED: 'The magic needs to rest until tomorrow! 🌙',
+};
+
+// Kid-friendly messages for the structured rejections (bad requests and limits)
+const REASON_MESSAGES: Record<ApiErrorReason, string> = {
+  PROMPT_TOO_LONG: 'Wow, that\'s a lot of story! Try telling it in fewer words 📖',
+  TOO_MANY_REFERENCES: 'That\'s a lot of animals! Pick up to 3 for one scene 🐴',
+  REFERENCE_TOO_LARGE: 'One of the animal pictures is too big. Try a new photo! 📷',
+  INVALID_REFERENCE: 'One of the animal pictures didn\'t work. Try a new photo! 📷',
+  SERVER_WORD_POLICY: 'The picture machine doesn\'t allow some of those words yet. Try other words, or ask Uncle Gavin! 🔧',
+  DAILY_IMAGE_LIMIT: 'That\'s all the pictures for today! The magic needs to rest until tomorrow 🌙',
+  DAILY_SCENE_LIMIT: 'That\'s all the scenes for today! The magic needs to rest until tomorrow 🌙',
+  OUTSIDE_ALLOWED_HOURS: 'The magic is sleeping right now. It will wake up soon! 😴',
+  DEVICE_NOT_AUTHORIZED: 'This device needs a grown-up to unlock it in Parent Mode! 🔑',
+};
+
+// For responses that didn't come from our function (e.g. a gateway timeout page)
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 408 || status === 504) return 'TIMEOUT';
+  if (status === 401 || status === 403) return 'AUTH';
+  if (status >= 500) return 'PROVIDER_DOWN';
+  return 'BAD_REQUEST';
+}
+
+export function friendlyError({ code, reason, retryAfter }: ApiErrorBody): string {
+  if (reason) {
+    return REASON_MESSAGES[reason];
   }
-  if (error.includes('billing') || error.includes('quota') || error.includes('403')) {
-    return 'The magic machine needs more fuel! Ask Uncle Gavin 🔧';
+  if (code === 'RATE_LIMITED' && retryAfter) {
+    return `Whoa, slow down! Wait ${retryAfter} seconds and try again ⏰`;
   }
-  return 'Something went wrong. Let\'s try again! 🔄';
+  return CODE_MESSAGES[code];
+}
+
+// Keep the technical side for Parent Mode, then give the child the friendly one
+function failure(body: ApiErrorBody): ImageGenerationResult {
+  console.error('Generation error:', body.code, body.error);
+  addErrorLogEntry({ timestamp: Date.now(), code: body.code, detail: body.error, provider: body.provider })
+    .catch((error) => console.error('Error log error:', error));
+  return { success: false, error: friendlyError(body), errorDetail: body };
 }
 
 // Generate a single animal portrait
 export async function generateAnimalPortrait(
   animal: Animal,
-  settings: Settings
+  settings: Settings,
+  options: Pick<GenerateImagesOptions, 'signal' | 'fresh'> = {}
 ): Promise<ImageGenerationResult> {
-  const prompt = buildAnimalPortraitPrompt(animal);
-  return generateImages(prompt, settings, 1);
+  const prompt = buildAnimalPortraitPrompt(animal, settings);
+  return generateImages(prompt, settings, 1, { ...options, feature: 'portrait' });
 }
 
 // Generate scene images with reference images from animals
@@ -182,13 +416,32 @@ export async function generateSceneImages(
   animals: Animal[],
   location: Location,
   description: string,
-  settings: Settings
+  settings: Settings,
+  options: Pick<GenerateImagesOptions, 'onImage' | 'signal' | 'fresh' | 'aspect'> = {}
 ): Promise<ImageGenerationResult & { promptUsed: string }> {
-  const prompt = buildScenePrompt(animals, location, description);
-  const referenceImages = getAnimalImages(animals);
-  const result = await generateImages(prompt, settings, settings.imageCount, referenceImages);
+  const prompt = buildScenePrompt(animals, location, description, settings);
+  const textOnlyPrompt = buildScenePrompt(animals, location, description, settings, false);
+  const referenceImages = await getAnimalImages(animals);
+  const result = await generateImages(prompt, settings, settings.imageCount, {
+    referenceImages,
+    textOnlyPrompt,
+    feature: 'scene',
+    ...options,
+  });
   return {
     ...result,
-    promptUsed: prompt,
+    promptUsed: result.usedReferenceImages ? prompt : textOnlyPrompt,
   };
 }
+
+// Providers the server has keys for, for Parent Mode's model picker; null if the server can't be reached
+export async function fetchAvailableProviders(): Promise<AvailableProvider[] | null> {
+  try {
+    const response = await fetch('/api/generate-image');
+    if (!response.ok) return null;
+    const data: AvailableProvidersResponse = await response.json();
+    return data.providers;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,45 @@
+// ============================================
+// Prompt Templates
+// The fixed text wrapped around the child's words. Kept free of browser code
+// because the server imports it too, to strip the template before its content check.
+// ============================================
+
+import { Location } from '../types';
+import { SAFETY_PROFILES } from './contentFilter';
+
+// Art style constant - cozy storybook watercolor
+export const ART_STYLE = `cozy children's storybook watercolor illustration, warm soft lighting, 
+gentle pastel colors with pops of warmth, friendly inviting atmosphere, 
+hand-painted feel with soft edges, magical dreamy quality, 
+reminiscent of classic children's picture books`;
+
+export const REFERENCE_INSTRUCTION = 'IMPORTANT: Draw the characters to match the reference images provided. Keep their appearance consistent with the references.';
+
+export const PORTRAIT_INSTRUCTION = `The animal should have a warm, friendly expression and be looking at the viewer.
+Centered composition with soft background.`;
+
+// Location descriptions for richer prompts
+export const LOCATION_DESCRIPTIONS: Record<Location, string> = {
+  'Stable': 'a cozy wooden stable with hay bales, warm lantern light, and comfortable stalls',
+  'Barn': 'a charming red barn with open doors, golden sunlight streaming in, rustic wooden beams',
+  'Pasture': 'a lush green pasture with wildflowers, white wooden fences, and rolling hills',
+  'Meadow': 'a beautiful wildflower meadow with butterflies, soft grass, and gentle sunshine',
+  'Forest Trail': 'a magical forest trail with dappled sunlight through leaves, ferns, and mossy rocks',
+  'Riding Arena': 'a well-kept riding arena with white fences, soft sandy ground, and blue sky',
+  'Winter Field': 'a peaceful snowy field with gentle snowflakes, frost-covered fences, and cozy atmosphere',
+  'River': 'a gentle babbling brook with smooth stones, willow trees, and sparkling water',
+  'Mountain Path': 'a scenic mountain trail with wildflowers, pine trees, and distant peaks',
+  'Cozy Farm': 'a charming farmyard with a cottage, vegetable garden, and friendly atmosphere',
+};
+
+// Fixed template text we add around the child's words. The server strips these
+// before running the content filter, so only user-entered text is checked.
+export function getPromptTemplateFragments(): string[] {
+  return [
+    ART_STYLE,
+    REFERENCE_INSTRUCTION,
+    PORTRAIT_INSTRUCTION,
+    ...Object.values(SAFETY_PROFILES).map(profile => profile.promptSuffix),
+    ...Object.values(LOCATION_DESCRIPTIONS),
+  ];
+}
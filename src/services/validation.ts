@@ -0,0 +1,133 @@
+// ============================================
+// Text Validation Layer
+// One place that checks every user-entered string on animals and scenes
+// ============================================
+
+import { Animal, FilterOutcome, Scene, TextField } from '../types';
+import {
+  checkContent,
+  ContentCheckResult,
+  ContentFilterOptions,
+  validateAnimalName,
+  validateSceneDescription,
+} from './contentFilter';
+import { addFilterLogEntry } from './database';
+
+export interface ValidationResult extends ContentCheckResult {
+  // The field that failed (or carried a note)
+  field?: TextField;
+}
+
+// Limits match the maxLength of the matching inputs
+const MAX_LENGTHS: Record<TextField, number> = {
+  'animal.name': 30,
+  'animal.primaryColor': 30,
+  'animal.secondaryColor': 30,
+  'animal.markings': 100,
+  'animal.specialThing': 100,
+  'scene.title': 100,
+  'scene.userDescription': 500,
+  'scene.caption': 500,
+};
+
+// The same text is often checked twice in a row (by the form, then by the save handler)
+const LOG_DEDUPE_MS = 5000;
+const recentlyLogged = new Map<string, number>();
+
+function logFilterEvent(
+  field: TextField,
+  originalText: string,
+  outcome: FilterOutcome,
+  matchedRule?: string,
+  replacement?: string
+): void {
+  const now = Date.now();
+  const key = `${field}|${outcome}|${originalText}`;
+  const last = recentlyLogged.get(key);
+  if (last && now - last < LOG_DEDUPE_MS) return;
+  recentlyLogged.set(key, now);
+
+  addFilterLogEntry({ timestamp: now, field, originalText, matchedRule, outcome, replacement })
+    .catch((error) => console.error('Filter log error:', error));
+}
+
+// Record anything the word filter caught (length and empty-field messages aren't logged)
+function logResult(field: TextField, text: string | undefined, result: ValidationResult): ValidationResult {
+  if (text && result.matchedTerm) {
+    logFilterEvent(field, text, result.isAllowed ? 'softened' : 'blocked', result.matchedTerm);
+  }
+  return result;
+}
+
+// Called when the child taps a gentle rewrite suggestion
+export function logRewriteAccepted(
+  field: TextField,
+  originalText: string,
+  replacement: string,
+  options: ContentFilterOptions = {}
+): void {
+  const check = checkContent(originalText, options);
+  logFilterEvent(field, originalText, 'rewritten', check.matchedTerm, replacement);
+}
+
+// Check a single field; empty optional fields are always fine
+export function validateField(
+  field: TextField,
+  text: string | undefined,
+  options: ContentFilterOptions = {}
+): ValidationResult {
+  if (field === 'animal.name') {
+    return logResult(field, text, { ...validateAnimalName(text || '', options), field });
+  }
+  if (field === 'scene.userDescription') {
+    return logResult(field, text, { ...validateSceneDescription(text || '', options), field });
+  }
+
+  if (!text || text.trim().length === 0) {
+    return { isAllowed: true, cleanedText: '' };
+  }
+
+  if (text.length > MAX_LENGTHS[field]) {
+    return {
+      isAllowed: false,
+      friendlyMessage: "That's a bit long! Can you make it shorter? 📝",
+      field,
+    };
+  }
+
+  return logResult(field, text, { ...checkContent(text, options), field });
+}
+
+// Run each field in order and stop at the first problem; notes from allowed fields are kept
+function validateFields(
+  fields: [TextField, string | undefined][],
+  options: ContentFilterOptions
+): ValidationResult {
+  let note: ValidationResult | null = null;
+
+  for (const [field, text] of fields) {
+    const result = validateField(field, text, options);
+    if (!result.isAllowed) return result;
+    if (result.friendlyMessage && !note) note = result;
+  }
+
+  return note || { isAllowed: true };
+}
+
+export function validateAnimal(animal: Animal, options: ContentFilterOptions = {}): ValidationResult {
+  return validateFields([
+    ['animal.name', animal.name],
+    ['animal.primaryColor', animal.colors.primary],
+    ['animal.secondaryColor', animal.colors.secondary],
+    ['animal.markings', animal.colors.markings],
+    ['animal.specialThing', animal.specialThing],
+  ], options);
+}
+
+export function validateScene(scene: Scene, options: ContentFilterOptions = {}): ValidationResult {
+  return validateFields([
+    ['scene.title', scene.title],
+    ['scene.userDescription', scene.userDescription],
+    ['scene.caption', scene.caption],
+  ], options);
+}
@@ -56,6 +56,8 @@ export interface Animal {
   specialThing?: string;
   stickerDataUrl?: string;
   portraitDataUrl?: string;
+  // Small copy of the portrait or sticker for grids
+  thumbnailDataUrl?: string;
 }
 
 export interface Scene {
@@ -68,16 +70,94 @@ export interface Scene {
   promptUsed: string;
   imageDataUrls: string[];
   chosenImageDataUrl?: string;
+  // Small copy of the chosen picture for the storybook grid
+  thumbnailDataUrl?: string;
+  // Shape asked for, and the chosen picture's real size; scenes saved before these existed are square
+  aspect?: ImageAspect;
+  width?: number;
+  height?: number;
   caption?: string;
   voiceNoteDataUrl?: string;
 }
 
+// Age bands for the content filter and prompt wording
+export type SafetyProfileId = 'little-ones' | 'kids' | 'tweens';
+
 export interface Settings {
   openaiApiKey?: string;
+  // Provider to try first, e.g. 'gpt-image', or 'auto' to let the server choose
   imageModel: string;
+  imageQuality: ImageQuality;
   imageCount: number;
   kidSafeMode: boolean;
   extraGentleMode: boolean;
+  safetyProfile: SafetyProfileId;
+  limits: GenerationLimits;
+  // Show the same pictures again for an identical request instead of paying for new ones
+  reuseIdenticalPictures: boolean;
+  imageStorage: ImageStorageSettings;
+}
+
+// How new pictures are stored on the device; 'original' keeps the provider's PNG
+export type ImageStorageFormat = 'webp' | 'jpeg' | 'original';
+
+export interface ImageStorageSettings {
+  format: ImageStorageFormat;
+  // 0-1, for WebP and JPEG
+  quality: number;
+}
+
+// How much care (and money) goes into each picture
+export type ImageQuality = 'sketch' | 'standard' | 'best';
+
+// Picture shapes for storybook pages; each provider uses its nearest native size
+export type ImageAspect = 'square' | 'landscape' | 'portrait' | 'banner';
+
+// Parent-set limits on picture making; 0 means no limit
+export interface GenerationLimits {
+  imagesPerDay: number;
+  scenesPerDay: number;
+  // Local hours when pictures can be made, e.g. { start: 8, end: 19 } is 8am-7pm; null means any time
+  allowedHours: { start: number; end: number } | null;
+}
+
+// Limits the server enforces from its environment variables, whatever a device has saved
+export interface ServerLimits extends GenerationLimits {
+  // Time zone the allowed hours and the day boundary are read in
+  timeZone: string;
+}
+
+// Family word lists, merged into the content filter (edited in Parent Mode)
+export interface CustomWordLists {
+  blocked: string[];
+  allowed: string[];
+  // blocked word -> friendlier suggestion
+  alternatives: Record<string, string>;
+}
+
+// Every user-entered string on Animal and Scene
+export type TextField =
+  | 'animal.name'
+  | 'animal.primaryColor'
+  | 'animal.secondaryColor'
+  | 'animal.markings'
+  | 'animal.specialThing'
+  | 'scene.title'
+  | 'scene.userDescription'
+  | 'scene.caption';
+
+// Parent-visible log of what the filter caught
+export type FilterOutcome = 'blocked' | 'softened' | 'rewritten';
+
+export interface FilterLogEntry {
+  id?: number; // Assigned by IndexedDB
+  timestamp: number;
+  field: TextField;
+  originalText: string;
+  matchedRule?: string;
+  outcome: FilterOutcome;
+  // The gentler text the child chose (for 'rewritten')
+  replacement?: string;
 }
 
 export interface AppState {
@@ -106,6 +186,179 @@ export interface NavigationState {
   };
 }
 
+// Structured errors returned by /api/generate-image
+export type ApiErrorCode =
+  | 'RATE_LIMITED'
+  | 'CONTENT_REJECTED'
+  | 'AUTH'
+  | 'QUOTA'
+  | 'TIMEOUT'
+  | 'PROVIDER_DOWN'
+  | 'BAD_REQUEST'
+  | 'BUDGET_EXHAUSTED';
+
+export type ApiErrorReason =
+  | 'PROMPT_TOO_LONG'
+  | 'TOO_MANY_REFERENCES'
+  | 'REFERENCE_TOO_LARGE'
+  | 'INVALID_REFERENCE'
+  // CONTENT_REJECTED: words the device let through but the server's own word lists block
+  | 'SERVER_WORD_POLICY'
+  // BUDGET_EXHAUSTED
+  | 'DAILY_IMAGE_LIMIT'
+  | 'DAILY_SCENE_LIMIT'
+  | 'OUTSIDE_ALLOWED_HOURS'
+  // AUTH
+  | 'DEVICE_NOT_AUTHORIZED';
+
+export interface ApiErrorBody {
+  // Technical detail for parents; children see a message chosen by code
+  error: string;
+  code: ApiErrorCode;
+  reason?: ApiErrorReason;
+  // Seconds to wait before trying again
+  retryAfter?: number;
+  // Provider that produced the error, when there was one
+  provider?: string;
+}
+
+// Recent generation problems, kept for Parent Mode
+export interface ErrorLogEntry {
+  id?: number; // Assigned by IndexedDB
+  timestamp: number;
+  code: ApiErrorCode;
+  detail: string;
+  provider?: string;
+}
+
+// Pictures one provider made for a request, with the estimated bill
+export interface UsageLine {
+  provider: string;
+  model: string;
+  images: number;
+  estimatedCost: number; // USD
+}
+
+// Lines of the NDJSON stream /api/generate-image sends once generation starts
+export type GenerationStreamEvent =
+  | {
+      type: 'image';
+      index: number;
+      image: string;
+      usedReferenceImages: boolean;
+      provider: string;
+      model: string;
+      estimatedCost: number;
+    }
+  | {
+      type: 'done';
+      count: number;
+      usedReferenceImages: boolean;
+      providers: string[];
+      usage: UsageLine[];
+      durationMs: number;
+      // Served from the server's cache; nothing new was made
+      cached?: boolean;
+    }
+  | ({ type: 'error' } & ApiErrorBody);
+
+// Pictures kept for an identical request (see services/imageCache)
+export interface CachedImages {
+  key: string;
+  createdAt: number;
+  images: string[];
+  // Same order as images; missing in entries cached before thumbnails existed
+  thumbnails?: string[];
+  usedReferenceImages: boolean;
+  providers: string[];
+}
+
+export type UsageFeature = 'portrait' | 'scene';
+
+// One generation in the local usage ledger
+export interface UsageEntry {
+  id?: number; // Assigned by IndexedDB
+  timestamp: number;
+  feature: UsageFeature;
+  providers: string[];
+  models: string[];
+  images: number;
+  durationMs: number;
+  estimatedCost: number; // USD
+  // Stopped part-way; the pictures that finished were still paid for
+  cancelled?: boolean;
+}
+
+// A device unlocked with the family passcode (listed in Parent Mode)
+export interface DeviceInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  lastSeenAt?: number;
+}
+
+// POST /api/device-token
+export interface DeviceTokenResponse {
+  token: string;
+  device: DeviceInfo;
+}
+
+// GET /api/devices
+export interface DevicesResponse {
+  // False when no FAMILY_PASSCODE is set and the API is open
+  enabled: boolean;
+  devices: DeviceInfo[];
+  currentDeviceId: string | null;
+}
+
+// Result of a provider's cheap connectivity check
+export interface ProviderSelfTest {
+  ok: boolean;
+  latencyMs: number;
+  code?: ApiErrorCode;
+  error?: string;
+}
+
+// One provider as reported by /api/status
+export interface ProviderStatus {
+  id: string;
+  label: string;
+  // Environment variables the provider needs, e.g. ['OPENAI_API_KEY']
+  requiredEnv: string[];
+  configured: boolean;
+  // Skipped for now after repeated failures
+  circuitOpen: boolean;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: ApiErrorBody;
+  selfTest?: ProviderSelfTest;
+}
+
+// GET /api/status
+export interface StatusResponse {
+  checkedAt: number;
+  // Providers in the order they are tried
+  providers: ProviderStatus[];
+  // null when the server sets no limits of its own
+  limits: ServerLimits | null;
+}
+
+// One provider the server can use right now
+export interface AvailableProvider {
+  id: string;
+  label: string;
+  model: string;
+  supportsReferenceImages: boolean;
+  // Rough USD per picture at each quality
+  costPerImage: Record<ImageQuality, number>;
+}
+
+// GET /api/generate-image
+export interface AvailableProvidersResponse {
+  // Configured providers, in the order they're tried when the choice is 'auto'
+  providers: AvailableProvider[];
+}
+
 // Daily spark prompts
 export interface DailySpark {
   text: string;
@@ -0,0 +1,76 @@
+// ============================================
+// Image Compression
+// Shrinks provider PNGs to WebP/JPEG and makes grid thumbnails, in a worker
+// ============================================
+
+import { ImageStorageSettings } from '../types';
+
+// Longest side of a grid thumbnail
+const THUMBNAIL_SIZE = 256;
+
+export interface CompressedImage {
+  image: string;
+  // Missing when this browser can't compress off the main thread
+  thumbnail?: string;
+}
+
+// Messages to and from imageCompression.worker.ts
+export interface CompressRequest {
+  id: number;
+  dataUrl: string;
+  format: ImageStorageSettings['format'];
+  quality: number;
+  thumbnailSize: number;
+}
+
+export interface CompressResponse {
+  id: number;
+  image?: string;
+  thumbnail?: string;
+  error?: string;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, (response: CompressResponse) => void>();
+let unavailable = false;
+
+function getWorker(): Worker | null {
+  if (unavailable || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+
+  if (!worker) {
+    worker = new Worker(new URL('./imageCompression.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<CompressResponse>) => {
+      pending.get(event.data.id)?.(event.data);
+      pending.delete(event.data.id);
+    });
+    // A worker that can't start would leave every caller waiting; fail them all and stop using it
+    worker.addEventListener('error', (event) => {
+      for (const [id, resolve] of pending) resolve({ id, error: event.message || 'Worker failed' });
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+      unavailable = true;
+    });
+  }
+  return worker;
+}
+
+// Never fails: if anything goes wrong the original picture is kept, without a thumbnail
+export async function compressImage(dataUrl: string, storage: ImageStorageSettings): Promise<CompressedImage> {
+  const compressor = getWorker();
+  if (!compressor) return { image: dataUrl };
+
+  const id = nextId++;
+  const response = await new Promise<CompressResponse>((resolve) => {
+    pending.set(id, resolve);
+    const request: CompressRequest = { id, dataUrl, format: storage.format, quality: storage.quality, thumbnailSize: THUMBNAIL_SIZE };
+    compressor.postMessage(request);
+  });
+
+  if (response.error || !response.image) {
+    console.error('Image compression failed:', response.error);
+    return { image: dataUrl };
+  }
+  return { image: response.image, thumbnail: response.thumbnail };
+}
@@ -0,0 +1,62 @@
+// ============================================
+// Image Compression Worker
+// Transcodes pictures and makes thumbnails off the main thread
+// ============================================
+
+import type { CompressRequest, CompressResponse } from './imageCompression';
+
+const THUMBNAIL_QUALITY = 0.7;
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function encode(bitmap: ImageBitmap, type: string, quality: number, maxSize?: number): Promise<string> {
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height)) : 1;
+  const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d')!;
+
+  // Clear pixels turn black when a canvas is saved as JPEG, which includes the WebP fallback below
+  if (type === 'image/jpeg') {
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  const blob = await canvas.convertToBlob({ type, quality });
+  // Browsers that can't encode WebP quietly hand back a PNG; JPEG works everywhere
+  if (blob.type !== type) {
+    return encode(bitmap, 'image/jpeg', quality, maxSize);
+  }
+  return blobToDataUrl(blob);
+}
+
+async function compress({ id, dataUrl, format, quality, thumbnailSize }: CompressRequest): Promise<CompressResponse> {
+  const source = await (await fetch(dataUrl)).blob();
+  const bitmap = await createImageBitmap(source);
+
+  try {
+    const type = format === 'jpeg' ? 'image/jpeg' : 'image/webp';
+    let image = dataUrl;
+    if (format !== 'original') {
+      const transcoded = await encode(bitmap, type, quality);
+      // Small or already-compressed pictures can come out bigger; keep whichever is smaller
+      if (transcoded.length < dataUrl.length) image = transcoded;
+    }
+    const thumbnail = await encode(bitmap, type, THUMBNAIL_QUALITY, thumbnailSize);
+    return { id, image, thumbnail };
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<CompressRequest>) => {
+  compress(event.data)
+    .catch((error): CompressResponse => ({ id: event.data.id, error: (error as Error).message }))
+    .then((response) => self.postMessage(response));
+});
@@ -72,6 +72,38 @@ export function cropImageToSquare(
   return canvas.toDataURL('image/png');
 }
 
+// Shrink a picture for upload: longest side at most maxSize and the data URL at most maxLength.
+// Pictures that already fit are returned as they are; others become JPEGs on white.
+export async function shrinkImageForUpload(
+  imageDataUrl: string,
+  maxSize: number,
+  maxLength: number
+): Promise<string> {
+  const image = await loadImage(imageDataUrl);
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  if (scale === 1 && imageDataUrl.length <= maxLength) {
+    return imageDataUrl;
+  }
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+
+  // JPEG has no transparency, so stickers get the white they'd sit on anyway
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  // Lower the quality step by step until it fits
+  let shrunk = '';
+  for (const quality of [0.9, 0.75, 0.6]) {
+    shrunk = canvas.toDataURL('image/jpeg', quality);
+    if (shrunk.length <= maxLength) break;
+  }
+  return shrunk;
+}
+
 // Add sticker effect (white outline + drop shadow)
 export function createStickerFromImage(imageDataUrl: string): Promise<string> {
   return new Promise(async (resolve, reject) => {
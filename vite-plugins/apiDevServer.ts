@@ -0,0 +1,118 @@
+// Serves the Vercel functions in api/ from the Vite dev server, so `npm run dev`
+// can make pictures without the Vercel CLI. Environment variables come from .env files
+// (.env.local etc.); IMAGE_PROVIDERS=mock there gives fully offline development.
+
+import { existsSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { loadEnv, type Plugin, type ViteDevServer } from 'vite';
+
+type ApiHandler = (request: Request) => Response | Promise<Response>;
+
+// api/generate-image.ts answers /api/generate-image; api/_lib is never routed
+const ROUTE_PATTERN = /^\/api\/([a-z0-9-]+)\/?$/;
+
+function findHandlerFile(root: string, pathname: string): string | null {
+  const match = ROUTE_PATTERN.exec(pathname);
+  if (!match) return null;
+  const file = path.join(root, 'api', `${match[1]}.ts`);
+  return existsSync(file) ? file : null;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Node request -> the Web Request the edge handlers expect
+async function toWebRequest(req: IncomingMessage, signal: AbortSignal): Promise<Request> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach(item => headers.append(name, item));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+  // Vercel sets this; the rate limiter keys on it when family access is off
+  if (!headers.has('x-forwarded-for') && req.socket.remoteAddress) {
+    headers.set('x-forwarded-for', req.socket.remoteAddress);
+  }
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`), {
+    method: req.method,
+    headers,
+    body: hasBody ? await readBody(req) : undefined,
+    signal,
+  });
+}
+
+// Copies the Web Response back, streaming the body so NDJSON lines arrive as they're sent
+async function sendWebResponse(response: Response, res: ServerResponse): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+
+  if (response.body) {
+    for await (const chunk of response.body) {
+      if (res.destroyed) break;
+      res.write(chunk);
+    }
+  }
+  res.end();
+}
+
+async function handleApiRequest(server: ViteDevServer, req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+  const file = findHandlerFile(server.config.root, pathname);
+  if (!file) return false;
+
+  // Closing the tab or pressing Stop aborts the handler, like it does on Vercel
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abort.abort();
+  });
+
+  try {
+    // Loaded through Vite, so edits to api/ apply without restarting
+    const module = await server.ssrLoadModule(file);
+    const handler = module.default as ApiHandler;
+    const response = await handler(await toWebRequest(req, abort.signal));
+    await sendWebResponse(response, res);
+  } catch (error) {
+    console.error(`Dev API error in ${pathname}:`, error);
+    if (!res.headersSent) {
+      res.statusCode = 500;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: `Server error: ${(error as Error).message}`, code: 'PROVIDER_DOWN' }));
+    } else {
+      res.end();
+    }
+  }
+  return true;
+}
+
+export function apiDevServer(): Plugin {
+  return {
+    name: 'api-dev-server',
+    apply: 'serve',
+    configureServer(server) {
+      // Every variable, not just VITE_ ones; these stay on the server and never reach the browser
+      const env = loadEnv(server.config.mode, server.config.envDir || server.config.root, '');
+      for (const [name, value] of Object.entries(env)) {
+        if (process.env[name] === undefined) process.env[name] = value;
+      }
+
+      server.middlewares.use((req, res, next) => {
+        handleApiRequest(server, req, res)
+          .then((handled) => {
+            if (!handled) next();
+          })
+          .catch(next);
+      });
+    },
+  };
+}